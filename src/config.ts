@@ -0,0 +1,209 @@
+import * as fs from 'fs';
+import * as _ from 'lodash';
+import * as path from 'path';
+
+export const configFileNames = ["google-api-typings.config.json", "google-api-typings.config.ts"];
+
+export type OutputLayout = "nested" | "flat";
+
+export interface GeneratorConfig {
+    /** Glob patterns of API names or ids (name:version) to generate, all APIs by default */
+    include?: string[];
+    /** Glob patterns of API names or ids excluded from generation in addition to built-in exclusions */
+    exclude?: string[];
+    /** Versions generated instead of preferred version by API name, the first one is written as actual version */
+    versions?: Record<string, string | string[]>;
+    /** TypeScript types of discovery types, e.g. { "object": "unknown" } */
+    types?: Record<string, string>;
+    /** TypeScript types of formatted strings by discovery format, e.g. { "int64": "string" } */
+    formats?: Record<string, string>;
+    header?: {
+        /** Authors written to "Definitions by", e.g. "John Doe <https://github.com/johndoe>" */
+        authors?: string[];
+        /** Minimal TypeScript version of the typings */
+        typescriptVersion?: string;
+        /** Additional text written to the header of typings */
+        text?: string;
+    };
+    output?: {
+        /** Output directory, relative to the config file */
+        directory?: string;
+        target?: "namespace" | "module";
+        /** "nested" - <api>/<version> directories for non-preferred versions (default), "flat" - <api>-<version> directories */
+        layout?: OutputLayout;
+    };
+    /** doT templates used instead of the built-in ones, relative to the config file */
+    templates?: {
+        readme?: string;
+        tsconfig?: string;
+        tslint?: string;
+    };
+    comments?: {
+        /** Comment lines are wrapped at this length (150 by default) */
+        maxLineLength?: number;
+    };
+    /** Modules exporting generator plugins, relative paths are resolved against the config file */
+    plugins?: string[];
+}
+
+type Check = (value: unknown, path: string, errors: string[]) => void;
+
+function describe(value: unknown) {
+    return value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+}
+
+const isString: Check = (value, path, errors) => {
+    if (typeof value !== "string") {
+        errors.push(`${path} must be a string, got ${describe(value)}`);
+    }
+};
+
+const isPositiveInteger: Check = (value, path, errors) => {
+    if (typeof value !== "number" || !Number.isInteger(value) || value <= 0) {
+        errors.push(`${path} must be a positive integer, got ${JSON.stringify(value)}`);
+    }
+};
+
+function isOneOf(values: string[]): Check {
+    return (value, path, errors) => {
+        if (values.indexOf(value as string) < 0) {
+            errors.push(`${path} must be one of ${values.map(x => JSON.stringify(x)).join(", ")}, got ${JSON.stringify(value)}`);
+        }
+    };
+}
+
+function isArrayOf(item: Check): Check {
+    return (value, path, errors) => {
+        if (!Array.isArray(value)) {
+            errors.push(`${path} must be an array, got ${describe(value)}`);
+            return;
+        }
+
+        value.forEach((element, index) => item(element, `${path}[${index}]`, errors));
+    };
+}
+
+function isRecordOf(item: Check): Check {
+    return (value, path, errors) => {
+        if (describe(value) !== "object") {
+            errors.push(`${path} must be an object, got ${describe(value)}`);
+            return;
+        }
+
+        _.forEach(value as Record<string, unknown>, (element, key) => item(element, `${path}.${key}`, errors));
+    };
+}
+
+// all properties are optional, unknown properties are reported as errors to catch typos
+function isObject(properties: Record<string, Check>): Check {
+    return (value, path, errors) => {
+        if (describe(value) !== "object") {
+            errors.push(`${path} must be an object, got ${describe(value)}`);
+            return;
+        }
+
+        _.forEach(value as Record<string, unknown>, (element, key) => {
+            const check = properties[key];
+
+            if (!check) {
+                errors.push(`${path ? path + "." : ""}${key} is not a known option, expected one of ${_.keys(properties).join(", ")}`);
+            } else if (element !== undefined) {
+                check(element, path ? `${path}.${key}` : key, errors);
+            }
+        });
+    };
+}
+
+const stringOrStringArray: Check = (value, path, errors) => (Array.isArray(value) ? isArrayOf(isString) : isString)(value, path, errors);
+
+const checkConfig = isObject({
+    include: isArrayOf(isString),
+    exclude: isArrayOf(isString),
+    versions: isRecordOf(stringOrStringArray),
+    types: isRecordOf(isString),
+    formats: isRecordOf(isString),
+    header: isObject({
+        authors: isArrayOf(isString),
+        typescriptVersion: isString,
+        text: isString,
+    }),
+    output: isObject({
+        directory: isString,
+        target: isOneOf(["namespace", "module"]),
+        layout: isOneOf(["nested", "flat"]),
+    }),
+    templates: isObject({
+        readme: isString,
+        tsconfig: isString,
+        tslint: isString,
+    }),
+    comments: isObject({
+        maxLineLength: isPositiveInteger,
+    }),
+    plugins: isArrayOf(isString),
+});
+
+// throws error listing all problems of the configuration
+export function validateConfig(value: unknown, filename: string): GeneratorConfig {
+    const errors: string[] = [];
+
+    checkConfig(value, "", errors);
+
+    if (errors.length) {
+        throw new Error(`Invalid configuration ${filename}:\n${errors.map(error => `  ${error}`).join("\n")}`);
+    }
+
+    return value as GeneratorConfig;
+}
+
+// paths of the configuration are resolved against directory of the config file
+function resolvePaths(config: GeneratorConfig, directory: string): GeneratorConfig {
+    return {
+        ...config,
+        output: config.output && {
+            ...config.output,
+            directory: config.output.directory && path.resolve(directory, config.output.directory),
+        },
+        templates: config.templates && _.mapValues(config.templates, template => template && path.resolve(directory, template)),
+        // package names are kept as they are
+        plugins: config.plugins && config.plugins.map(plugin => plugin.startsWith(".") ? path.resolve(directory, plugin) : plugin),
+    };
+}
+
+// loads JSON or TypeScript (default export or module.exports, requires ts-node) configuration
+export function loadConfig(filename: string): GeneratorConfig {
+    if (!fs.existsSync(filename)) {
+        throw new Error(`Configuration file not found: ${filename}`);
+    }
+
+    const absolutePath = path.resolve(filename);
+    let value: unknown;
+
+    try {
+        if (path.extname(filename) === ".json") {
+            value = JSON.parse(fs.readFileSync(absolutePath, "utf-8"));
+        } else {
+            const loaded = require(absolutePath);
+            value = loaded && loaded.default || loaded;
+        }
+    } catch (e) {
+        throw new Error(`Can't load configuration ${filename}: ${e.message}`);
+    }
+
+    return resolvePaths(validateConfig(value, filename), path.dirname(absolutePath));
+}
+
+// returns path of configuration file in the directory if any
+export function findConfig(directory: string) {
+    return configFileNames
+        .map(name => path.join(directory, name))
+        .find(filename => fs.existsSync(filename));
+}
+
+// supports * (any characters) and ? (single character) wildcards
+export function matchesGlob(value: string, pattern: string) {
+    const expression = pattern.split("").map(char =>
+        char === "*" ? ".*" : char === "?" ? "." : _.escapeRegExp(char)).join("");
+
+    return new RegExp(`^${expression}$`).test(value);
+}
@@ -67,6 +67,8 @@ declare namespace gapi.client {
             };
             /** The default value of this property (if one exists). */
             default?: string;
+            /** Whether the parameter is deprecated. */
+            deprecated?: boolean;
             /** A description of this object. */
             description?: string;
             /** Values this parameter may take (if it is an enum). */
@@ -198,8 +200,12 @@ declare namespace gapi.client {
         interface RestMethod {
             /** Description of this method. */
             description?: string;
+            /** Whether this method is deprecated. */
+            deprecated?: boolean;
             /** Whether this method requires an ETag to be specified. The ETag is sent as an HTTP If-Match or If-None-Match header. */
             etagRequired?: boolean;
+            /** The URI path of this REST method in (RFC 6570) format without level 2 features ({+var}). Supplementary to the path property. */
+            flatPath?: string;
             /** HTTP method used by this method. */
             httpMethod?: string;
             /** A unique ID for this method. This property can be used to match methods between different versions of Discovery. */
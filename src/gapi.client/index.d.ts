@@ -2,7 +2,7 @@
 // Project: https://developers.google.com
 // Definitions by: Bolisov Alexey <https://github.com/Bolisov>
 // Definitions: https://github.com/DefinitelyTyped/DefinitelyTyped
-// TypeScript Version: 2.3
+// TypeScript Version: 3.7
 
 declare namespace gapi {
     /**
@@ -53,6 +53,43 @@ declare namespace gapi.client {
         // callback?: () => any;
     }): Request<T>;
 
+    /**
+     * Describes REST method of an API: HTTP method, query parameters, request body and response types
+     */
+    export interface RequestRoute {
+        method: string;
+        params: object;
+        body: unknown;
+        response: unknown;
+    }
+
+    /**
+     * Creates a HTTP request for REST method described by route of the API routes, e.g.
+     * gapi.client.request<gapi.client.drive.DriveRoutes, "GET files/{fileId}">({ path: `drive/v3/files/${fileId}`, method: "GET" })
+     */
+    export function request<TRoutes extends { [route in keyof TRoutes]: RequestRoute }, TRoute extends keyof TRoutes>(args: {
+        /**
+         * The URL to handle the request, path parameters of the route are expected to be substituted
+         */
+        path: string;
+        /**
+         * The HTTP request method of the route
+         */
+        method: TRoutes[TRoute]["method"];
+        /**
+         * URL params in key-value pair form
+         */
+        params?: TRoutes[TRoute]["params"];
+        /**
+         * Additional HTTP request headers
+         */
+        headers?: any;
+        /**
+         * The HTTP request body (applies to PUT or POST).
+         */
+        body?: TRoutes[TRoute]["body"];
+    }): Request<TRoutes[TRoute]["response"]>;
+
     // /**
     // * Creates an RPC Request directly. The method name and version identify the method to be executed and the RPC params are provided upon RPC creation.
     // * @param method The method to be executed.
@@ -67,7 +104,6 @@ declare namespace gapi.client {
     */
     export function setApiKey(apiKey: string): void;
 
-
     /** 
      * An object containing information about the HTTP response
      */
@@ -123,7 +159,7 @@ declare namespace gapi.client {
              * Identifies the response for this request in the map of batch responses. If one is not provided, the system generates a random ID.
              */
             id: string;
-            callback: (
+            callback?: (
                 /**
                  * is the response for this request only. Its format is defined by the API method being called.
                  */
@@ -150,6 +186,56 @@ declare namespace gapi.client {
         ) => any): void;
     }
 
+    /**
+     * Maps ids of batched requests to their responses
+     */
+    export type TypedResponseMap<TResponses> = {
+        [id in keyof TResponses]: Response<TResponses[id]>
+    };
+
+    /**
+     * Batch which keeps result type of every added request by its id.
+     * Type of requests is accumulated by assertion, so the batch must be declared with explicit type:
+     * const batch: gapi.client.TypedBatch = gapi.client.newBatch();
+     */
+    export interface TypedBatch<TResponses = {}> extends PromiseLike<Response<TypedResponseMap<TResponses>>> {
+        /**
+         * Adds a gapi.client.Request to the batch.
+         * @param request The HTTP request to add to this batch.
+         * @param opt_params extra parameters for this batch entry.
+         */
+        add<T, TId extends string>(request: Request<T>, opt_params: {
+            /**
+             * Identifies the response for this request in the map of batch responses.
+             */
+            id: TId;
+            callback?: (
+                /**
+                 * is the response for this request only. Its format is defined by the API method being called.
+                 */
+                individualResponse: Response<T>,
+                /**
+                 * is the raw batch ID-response map as a string. It contains all responses to all requests in the batch.
+                 */
+                rawBatchResponse: string
+            ) => any
+        }): asserts this is TypedBatch<TResponses & { [id in TId]: T }>;
+        /**
+         * Executes all requests in the batch. The supplied callback is executed on success or failure.
+         * @param callback The callback to execute when the batch returns.
+         */
+        execute(callback: (
+            /**
+             * is an ID-response map of each requests response.
+             */
+            responseMap: TypedResponseMap<TResponses>,
+            /**
+             * is the same response, but as an unparsed JSON-string.
+             */
+            rawBatchResponse: string
+        ) => any): void;
+    }
+
     // /**
     //  * Similar to gapi.client.HttpRequest except this object encapsulates requests generated by registered methods.
     //  */
@@ -1,32 +1,110 @@
 import * as program from 'commander';
+import * as crypto from 'crypto';
 import * as doT from 'dot';
 import * as fs from 'fs';
 import * as _ from 'lodash';
 import * as path from 'path';
 import * as request from 'request';
+import { configFileNames, findConfig, GeneratorConfig, loadConfig, matchesGlob, OutputLayout } from './config';
+import { convertSchemas, JsonSchemaDraft } from './json-schema';
+import { convertToOpenApi } from './openapi';
+import { verifyTypings } from './verify';
 
-var typesMap = {
+var typesMap: Record<string, string> = {
     "integer": "number",
     "object": "any",
     "any": "any",
     "string": "string"
 }
 
+// named types for string and number formats, declared in gapi.client typings
+export const defaultFormatTypes: Record<string, string> = {
+    "int32": "Int32Number",
+    "uint32": "Uint32Number",
+    "double": "DoubleNumber",
+    "float": "FloatNumber",
+    "int64": "Int64String",
+    "uint64": "Uint64String",
+    "date": "DateString",
+    "date-time": "DateTimeString",
+    "google-datetime": "DateTimeString",
+    "google-duration": "DurationString",
+    "google-fieldmask": "FieldMaskString",
+    "byte": "Base64String",
+};
+
+// declarations of named format types, values are branded by format, so values of different formats are not assignable to each other
+const formatTypeDeclarations: Record<string, { type: string, description: string }> = {
+    Int32Number: { type: `number & { __format?: "int32" }`, description: `Signed 32-bit integer (format: int32)` },
+    Uint32Number: { type: `number & { __format?: "uint32" }`, description: `Unsigned 32-bit integer (format: uint32)` },
+    DoubleNumber: { type: `number & { __format?: "double" }`, description: `Double precision floating point number (format: double)` },
+    FloatNumber: { type: `number & { __format?: "float" }`, description: `Single precision floating point number (format: float)` },
+    Int64String: { type: `string & { __format?: "int64" }`, description: `Signed 64-bit integer serialized as decimal string (format: int64)` },
+    Uint64String: { type: `string & { __format?: "uint64" }`, description: `Unsigned 64-bit integer serialized as decimal string (format: uint64)` },
+    DateString: { type: `string & { __format?: "date" }`, description: `RFC 3339 full-date, e.g. "2020-01-01" (format: date)` },
+    DateTimeString: { type: `string & { __format?: "date-time" }`, description: `RFC 3339 timestamp, e.g. "2020-01-01T00:00:00Z" (format: date-time, google-datetime)` },
+    DurationString: { type: `string & { __format?: "google-duration" }`, description: `Duration in seconds with up to nine fractional digits, terminated by 's', e.g. "3.5s" (format: google-duration)` },
+    FieldMaskString: { type: `string & { __format?: "google-fieldmask" }`, description: `Comma-separated list of field paths, e.g. "user.displayName,photo" (format: google-fieldmask)` },
+    Base64String: { type: `string & { __format?: "byte" }`, description: `Base64 encoded binary data (format: byte)` },
+};
+
+// names of format types declared in generated typings
+function getFormatTypeNames(options: AppOptions) {
+    return _.intersection(_.values(options.formatTypes), _.keys(formatTypeDeclarations)).sort();
+}
+
+// media content is sent by runtime client of module target only, gapi.client has no way to pass it along with a method call
+function emitsMediaUploads(options: AppOptions) {
+    return !!options.media && options.target === "module" && !!options.client;
+}
+
+// names of types declared next to schemas of every API, schemas of the same name are renamed
+function getHelperTypeNames(options: AppOptions) {
+    return [
+        ...getFormatTypeNames(options),
+        ...(options.pagination ? ["Paginated"] : []),
+        ...(emitsMediaUploads(options) ? ["MediaContent"] : []),
+        ...(options.partialResponses ? [
+            "FieldSelection", "NestedFieldSelection", "Fields", "PartialResponse", "PickFields", "PartialField",
+            "FieldsResponse", "ParseFields", "ParseFieldList", "ParseNestedFields", "JoinFieldList", "FieldListChunk", "FieldPaths", "NestedFieldPaths", "LastFieldPath", "FieldPath",
+        ] : []),
+    ];
+}
+
+// sample values used in generated tests for formatted strings
+const formatSamples: Record<string, string> = {
+    "int64": "42",
+    "uint64": "42",
+    "date": "2020-01-01",
+    "date-time": "2020-01-01T00:00:00Z",
+    "google-datetime": "2020-01-01T00:00:00Z",
+    "google-duration": "3.5s",
+    "google-fieldmask": "name",
+    "byte": "VGVzdCBzdHJpbmc=",
+};
+
 interface ITextWriter {
     write(chunk?);
     end();
 }
 
+// buffers written text, the whole text is passed to onEnd callback when the writer is closed
 class StringWriter implements ITextWriter {
 
     private buffer = "";
 
+    constructor(private onEnd?: (text: string) => void) {
+
+    }
+
     public write(chunk: string) {
         this.buffer += chunk;
     }
 
     public end() {
-
+        if (this.onEnd) {
+            this.onEnd(this.buffer);
+        }
     }
 
     public toString() {
@@ -34,22 +112,35 @@ class StringWriter implements ITextWriter {
     }
 }
 
-class StreamWriter implements ITextWriter {
+const excludedApi = ["replicapool", "replicapoolupdater"];
 
-    constructor(private stream: fs.WriteStream) {
+const defaultAuthors = ["Bolisov Alexey <https://github.com/Bolisov>", "Declan Vong <https://github.com/declanvong>"];
 
-    }
+const discoveryUrl = "https://www.googleapis.com/discovery/v1/apis";
 
-    write(chunk: string) {
-        this.stream.write(chunk);
-    }
+// file name of DirectoryList inside of local discovery directory
+const directoryFileName = "directory.json";
 
-    end() {
-        this.stream.end();
-    }
+// file name of RestDescription inside of local discovery directory
+export function getDiscoveryFileName(name: string, version: string) {
+    return `${name}.${version}.json`;
 }
 
-const excludedApi = ["replicapool", "replicapoolupdater"];
+function isRemoteUrl(url: string) {
+    return /^https?:\/\//i.test(url);
+}
+
+// maps directory item to local RestDescription file, remote urls are rewritten to files inside of directory
+export function resolveDiscoveryLocation(directory: string, item: { name?: string, version?: string, discoveryRestUrl?: string }) {
+    checkExists(item.name, 'directory item', 'name');
+    checkExists(item.version, 'directory item', 'version');
+
+    if (item.discoveryRestUrl && !isRemoteUrl(item.discoveryRestUrl)) {
+        return path.resolve(directory, item.discoveryRestUrl);
+    }
+
+    return path.join(directory, getDiscoveryFileName(item.name, item.version));
+}
 
 const irregylarSpaces = [
     /\u000B/g,// Line Tabulation (\v) - <VT>
@@ -106,15 +197,68 @@ interface ITypescriptTextWriter {
     namespace(name: string, context: (writer: TypescriptTextWriter) => void);
 }
 
-type TypescriptWriterCallback = (writer: TypescriptTextWriter) => void;
+export type TypescriptWriterCallback = (writer: TypescriptTextWriter) => void;
+
+// reserved words can be used as property names, but not as names of declarations
+const reservedWords = new Set([
+    "break", "case", "catch", "class", "const", "continue", "debugger", "default", "delete", "do", "else", "enum", "export", "extends",
+    "false", "finally", "for", "function", "if", "import", "in", "instanceof", "new", "null", "return", "super", "switch", "this",
+    "throw", "true", "try", "typeof", "var", "void", "while", "with",
+    // strict mode
+    "implements", "interface", "let", "package", "private", "protected", "public", "static", "yield",
+]);
+
+// predefined types can't be used as names of interfaces and type aliases
+const typeKeywords = new Set(["any", "bigint", "boolean", "never", "number", "object", "string", "symbol", "undefined", "unknown"]);
+
+function isIdentifier(name: string) {
+    return /^[A-Za-z_$][\w$]*$/.test(name);
+}
+
+// names of namespace members (e.g. root resources of gapi.client.<api>) can't be changed, they are accessed at runtime
+function isDeclarationName(name: string) {
+    return isIdentifier(name) && !reservedWords.has(name);
+}
+
+// converts discovery name into name of declaration, e.g. "2fa" -> "_2fa", "debugger" -> "debugger_", "a b/c" -> "a_b_c"
+export function toIdentifier(name: string) {
+    const identifier = name.replace(/[^\w$]/g, "_").replace(/^(?=\d)/, "_") || "_";
+
+    return reservedWords.has(identifier) || typeKeywords.has(identifier) ? identifier + "_" : identifier;
+}
+
+// maps names to identifiers, throws error if two names map to the same identifier
+export function getIdentifiers(names: string[], kind: string, convert = toIdentifier) {
+    const identifiers: Record<string, string> = {};
+    const byIdentifier: Record<string, string> = {};
+
+    for (const name of names) {
+        const identifier = convert(name);
+
+        if (byIdentifier[identifier] !== undefined) {
+            throw new Error(`${kind} ${JSON.stringify(byIdentifier[identifier])} and ${JSON.stringify(name)} map to the same identifier ${identifier}`);
+        }
+
+        byIdentifier[identifier] = name;
+        identifiers[name] = identifier;
+    }
+
+    return identifiers;
+}
 
 function formatPropertyName(name: string) {
-    if (name.indexOf(".") >= 0 || name.indexOf("-") >= 0 || name.indexOf("@") >= 0) {
-        return `"${name}"`;
+    // quote everything which is not a valid identifier, e.g. "$.xgafv" or "GET v1/files"
+    if (!isIdentifier(name)) {
+        return JSON.stringify(name);
     }
     return name;
 }
 
+// property access expression, e.g. .files or ["$.xgafv"]
+function formatPropertyAccess(name: string) {
+    return isIdentifier(name) ? `.${name}` : `[${JSON.stringify(name)}]`;
+}
+
 function convertVersion(version: string) {
     var m = version.match(/v(\d+)?\.?(\d+)?/);
 
@@ -133,8 +277,29 @@ function ensureDirectoryExists(directory: string) {
     }
 }
 
-class TypescriptTextWriter implements ITypescriptTextWriter {
-    constructor(private writer: IndentedTextWriter) {
+export function removeDirectory(directory: string) {
+    for (const name of fs.readdirSync(directory)) {
+        const child = path.join(directory, name);
+
+        if (fs.lstatSync(child).isDirectory()) {
+            removeDirectory(child);
+        } else {
+            fs.unlinkSync(child);
+        }
+    }
+
+    fs.rmdirSync(directory);
+}
+
+export class TypescriptTextWriter implements ITypescriptTextWriter {
+    constructor(private writer: IndentedTextWriter, private maxCommentLine = 150) {
+    }
+
+    /** Prefix interfaces and types with export keyword (ES module output) */
+    public exportDeclarations = false;
+
+    private get declarationPrefix() {
+        return this.exportDeclarations ? "export " : "";
     }
 
     private braces(text: string, context: (writer: TypescriptTextWriter) => void) {
@@ -168,11 +333,17 @@ class TypescriptTextWriter implements ITypescriptTextWriter {
     }
 
     public emptyType(name: string) {
-        this.writer.writeLine(`type ${name} = {};`);
+        this.writer.writeLine(`${this.declarationPrefix}type ${name} = {};`);
+    }
+
+    public typeAlias(name: string, type: string | TypescriptWriterCallback) {
+        this.writer.startIndentedLine(`${this.declarationPrefix}type ${name} = `);
+        this.write(type);
+        this.endLine(";");
     }
 
     public interface(name: string, context: TypescriptWriterCallback) {
-        this.braces(`interface ${name}`, context);
+        this.braces(`${this.declarationPrefix}interface ${name}`, context);
     }
 
     public anonymysType(context: TypescriptWriterCallback) {
@@ -218,12 +389,23 @@ class TypescriptTextWriter implements ITypescriptTextWriter {
 
     }
 
+    // index signature of additional properties, e.g. [key: string]: string;
+    public indexSignature(type: string | TypescriptWriterCallback, keyName = "key") {
+        if (typeof type === 'function') {
+            this.writer.startIndentedLine(`[${keyName}: string]: `);
+            type(this);
+            this.endLine(";");
+        } else {
+            this.writer.writeLine(`[${keyName}: string]: ${type};`);
+        }
+    }
+
     public comment(text: string = "", avoidTrailingNewline: boolean = false) {
         if (!text || text === "") {
             return;
         }
 
-        const maxLine = 150;
+        const maxLine = this.maxCommentLine;
 
         let lines: string[] = [];
 
@@ -356,7 +538,27 @@ function firstLetterUp(text: string) {
 }
 
 function getMethodParameterInterfaceName(resource, method: gapi.client.discovery.RestMethod) {
-    return firstLetterUp(resource) + firstLetterUp(getName(method.id ?? '')) + "Request";
+    return toIdentifier(firstLetterUp(resource) + firstLetterUp(getName(method.id ?? '')) + "Request");
+}
+
+// name of the interface exposing root resources of API in module output, e.g. DriveApi
+function getModuleApiName(apiName: string) {
+    return firstLetterUp(_.camelCase(apiName)) + "Api";
+}
+
+// name of OAuth scope union type, e.g. DriveScope
+function getScopeTypeName(apiName: string) {
+    return firstLetterUp(_.camelCase(apiName)) + "Scope";
+}
+
+// name of interface mapping method ids to accepted scopes, e.g. DriveMethodScopes
+function getMethodScopesTypeName(apiName: string) {
+    return firstLetterUp(_.camelCase(apiName)) + "MethodScopes";
+}
+
+// name of interface mapping HTTP method and path of methods to their types, e.g. DriveRoutes
+function getRoutesTypeName(apiName: string) {
+    return firstLetterUp(_.camelCase(apiName)) + "Routes";
 }
 
 function checkExists<T>(property: T, parentType?: string, propertyName?: string): asserts property is NonNullable<T> {
@@ -369,13 +571,69 @@ function checkExists<T>(property: T, parentType?: string, propertyName?: string)
     }
 }
 
-function getType(type: gapi.client.discovery.JsonSchema, schemas: Record<string, gapi.client.discovery.JsonSchema> | undefined): string | TypescriptWriterCallback {
+function isEnum(type: gapi.client.discovery.JsonSchema): type is gapi.client.discovery.JsonSchema & { enum: string[] } {
+    return !_.isEmpty(type.enum) && (type.type === "string" || type.type == null);
+}
+
+// returns string literal union for enum values, e.g. "ASC" | "DESC"
+function getEnumType(type: gapi.client.discovery.JsonSchema & { enum: string[] }) {
+    return type.enum.map(value => JSON.stringify(value)).join(" | ");
+}
+
+// returns schema which holds enum values for the property (either property itself or its array items)
+function getEnumSchema(type: gapi.client.discovery.JsonSchema) {
+    if (isEnum(type)) {
+        return type;
+    } else if (type.type === "array" && type.items && isEnum(type.items)) {
+        return type.items;
+    }
+    return undefined;
+}
+
+// type of additional properties, declared properties must be assignable to it as well
+function getIndexSignatureType(
+        schema: gapi.client.discovery.JsonSchema,
+        schemas: Record<string, gapi.client.discovery.JsonSchema> | undefined,
+        formatTypes: Record<string, string> = {},
+        types: Record<string, string> = typesMap,
+): string | TypescriptWriterCallback {
+    checkExists(schema.additionalProperties, 'object', 'additionalProperties');
+    const additionalType = getType(schema.additionalProperties, schemas, formatTypes, types);
+
+    if (_.isEmpty(schema.properties)) {
+        return additionalType;
+    }
+
+    const propertyTypes = _.map(schema.properties, property => getType(property, schemas, formatTypes, types));
+    const optional = _.some(schema.properties, property => !property.required) ? ["undefined"] : [];
+    const unionTypes = _.uniq([additionalType, ...propertyTypes, ...optional]);
+
+    return (writer: TypescriptTextWriter) => unionTypes.forEach((unionType, index) => {
+        if (index > 0) {
+            writer.write(" | ");
+        }
+
+        if (typeof unionType === 'function') {
+            unionType(writer);
+        } else {
+            writer.write(unionType);
+        }
+    });
+}
+
+export function getType(
+        type: gapi.client.discovery.JsonSchema,
+        schemas: Record<string, gapi.client.discovery.JsonSchema> | undefined,
+        formatTypes: Record<string, string> = {},
+        types: Record<string, string> = typesMap,
+): string | TypescriptWriterCallback {
     if (type.type === "array") {
         checkExists(type.items, 'array', 'items');
-        const child = getType(type.items, schemas);
+        const child = getType(type.items, schemas, formatTypes, types);
 
         if (typeof child === "string") {
-            return `${child}[]`;
+            // union types need to be wrapped to keep precedence
+            return child.indexOf(" | ") >= 0 ? `Array<${child}>` : `${child}[]`;
         }
         else if (typeof child === "function") {
             return (writer: TypescriptTextWriter) => {
@@ -392,26 +650,30 @@ function getType(type: gapi.client.discovery.JsonSchema, schemas: Record<string,
             writer.anonymysType(() => {
                 checkExists(type.properties, 'object', 'properties');
                 forEachOrdered(type.properties, (property, propertyName) => {
-                    property.description && writer.comment(formatComment(property.description));
-                    writer.property(propertyName, getType(property, schemas), property.required || false);
+                    writer.comment(getComment(property));
+                    writer.property(propertyName, getType(property, schemas, formatTypes, types), property.required || false);
                 });
 
                 if (type.additionalProperties) {
-                    writer.property("[key: string]", getType(type.additionalProperties, schemas));
+                    writer.indexSignature(getIndexSignatureType(type, schemas, formatTypes, types));
                 }
             });
         }
     } else if (type.type === "object" && type.additionalProperties) {
         return (writer: TypescriptTextWriter) => {
             checkExists(type.additionalProperties);
-            const child = getType(type.additionalProperties, schemas);
+            const child = getType(type.additionalProperties, schemas, formatTypes, types);
             writer.write("Record<string, ");
             writer.write(child);
             writer.write(">");
         }
     }
+    else if (isEnum(type)) {
+        const t = getEnumType(type);
+        return type.repeated ? `${t} | Array<${t}>` : t;
+    }
     else if (type.type) {
-        const t = typesMap[type.type] || type.type;
+        const t = (type.format && formatTypes[type.format]) || types[type.type] || type.type;
         return type.repeated ? `${t} | ${t}[]` : t;
     }
     else if (type.$ref) {
@@ -433,23 +695,327 @@ function formatComment(comment: string) {
     return comment;
 }
 
-function getMethodReturn(method: gapi.client.discovery.RestMethod, schemas: Record<string, gapi.client.discovery.JsonSchema> | undefined) {
+// returns property description extended with descriptions of enum values
+export function getComment(type: gapi.client.discovery.JsonSchema) {
+    const lines: string[] = [];
+
+    if (type.description) {
+        lines.push(formatComment(type.description));
+    }
+
+    const enumSchema = getEnumSchema(type);
+
+    if (enumSchema && _.some(enumSchema.enumDescriptions)) {
+        lines.push("Possible values:");
+        enumSchema.enum.forEach((value, index) => {
+            const description = enumSchema.enumDescriptions && enumSchema.enumDescriptions[index];
+            lines.push(description ? `${JSON.stringify(value)} - ${description}` : JSON.stringify(value));
+        });
+    }
+
+    const format = type.format || (type.type === "array" && type.items && type.items.format);
+
+    if (format) {
+        lines.push(`@format ${format}`);
+    }
+
+    if (type.deprecated) {
+        lines.push("@deprecated");
+    }
+
+    return lines.join("\n");
+}
+
+// returns parameter description extended with its location and constraints
+export function getParameterComment(parameter: gapi.client.discovery.JsonSchema) {
+    const lines = [getComment(parameter)].filter(Boolean);
+
+    if (parameter.location) {
+        lines.push(`@location ${parameter.location}`);
+    }
+
+    if (parameter.pattern) {
+        lines.push(`@pattern ${parameter.pattern}`);
+    }
+
+    if (parameter.minimum != null) {
+        lines.push(`@minimum ${parameter.minimum}`);
+    }
+
+    if (parameter.maximum != null) {
+        lines.push(`@maximum ${parameter.maximum}`);
+    }
+
+    if (parameter.default != null) {
+        lines.push(`@default ${parameter.default}`);
+    }
+
+    return lines.join("\n");
+}
+
+// returns method description extended with HTTP request, scopes and documentation link, note is placed before tags
+export function getMethodComment(method: gapi.client.discovery.RestMethod, documentationLink?: string, note?: string) {
+    const lines = [method.description && formatComment(method.description), note].filter(Boolean) as string[];
+
+    if (method.httpMethod) {
+        lines.push(`@httpMethod ${method.httpMethod}`);
+    }
+
+    if (method.path) {
+        lines.push(`@path ${method.path}`);
+    }
+
+    if (method.flatPath && method.flatPath !== method.path) {
+        lines.push(`@flatPath ${method.flatPath}`);
+    }
+
+    _.forEach(method.scopes, scope => lines.push(`@scope ${scope}`));
+
+    if (method.deprecated) {
+        lines.push("@deprecated");
+    }
+
+    if (documentationLink) {
+        lines.push(`@see ${documentationLink}`);
+    }
+
+    return lines.join("\n");
+}
+
+// properties populated by the service only: readOnly or documented as "Output only."
+function isOutputOnly(property: gapi.client.discovery.JsonSchema) {
+    return property.readOnly || /^\[?output[ -]only\b/i.test((property.description || "").trim());
+}
+
+// returns optional properties of request schema which are required for the method and output only properties
+function getRequestBodyProperties(schema: gapi.client.discovery.JsonSchema, methodId: string) {
+    const required: string[] = _.keys(_.pickBy(schema.properties, property =>
+        !property.required && property.annotations && _.includes(property.annotations.required, methodId))).sort();
+    const outputOnly: string[] = _.keys(_.pickBy(schema.properties, (property, name) =>
+        isOutputOnly(property) && !property.required && !_.includes(required, name))).sort();
+
+    return { required, outputOnly };
+}
+
+// returns body type of the method derived from the request schema: output only properties are omitted
+// and properties required for the method (annotations.required) are not optional, undefined if schema fits as is
+export function getRequestBodyType(schemaName: string, schema: gapi.client.discovery.JsonSchema, methodId: string) {
+    const { required, outputOnly } = getRequestBodyProperties(schema, methodId);
+
+    if (!required.length && !outputOnly.length) {
+        return undefined;
+    }
+
+    const union = (names: string[]) => names.map(name => JSON.stringify(name)).join(" | ");
+    const types = [outputOnly.length ? `Omit<${schemaName}, ${union(outputOnly)}>` : schemaName];
+
+    if (required.length) {
+        types.push(`Required<Pick<${schemaName}, ${union(required)}>>`);
+    }
+
+    return types.join(" & ");
+}
+
+function getResponseType(method: gapi.client.discovery.RestMethod, schemas: Record<string, gapi.client.discovery.JsonSchema> | undefined) {
     checkExists(schemas);
-    const name = schemas["Request"] ? "client.Request" : "Request";
 
     if (method.response) {
         const schemaName = method.response.$ref;
         const schema = schemaName && schemas[schemaName];
 
         if (schema && !isEmptySchema(schema)) {
-            return `${name}<${schemaName}>`;
+            return schemaName;
         } else {
-            return `${name}<{}>`;
+            return `{}`;
         }
     }
     else {
-        return `${name}<void>`;
+        return `void`;
+    }
+}
+
+interface MethodSignature {
+    comment: string;
+    /** Type parameters including angle brackets, empty if the signature is not generic */
+    typeParameters: string;
+    parameters: { parameter: string, type: string | TypescriptWriterCallback }[];
+    returnType: string;
+}
+
+// request body types of resource methods which differ from request schema by method name
+function getRequestBodyTypes(
+        resourceName: string,
+        resource: gapi.client.discovery.RestResource,
+        schemas: Record<string, gapi.client.discovery.JsonSchema> | undefined,
+) {
+    const types: Record<string, { typeName: string, type: string }> = {};
+
+    forEachOrdered(resource.methods, (method, name) => {
+        const schemaName = method.request?.$ref;
+
+        if (!schemaName) {
+            return;
+        }
+
+        checkExists(schemas);
+        checkExists(method.id, 'method', 'id');
+
+        const schema = schemas[schemaName];
+        const bodyType = schema && !isEmptySchema(schema) && getRequestBodyType(schemaName, schema, method.id);
+
+        if (bodyType) {
+            types[name] = { typeName: getMethodParameterInterfaceName(resourceName, method) + "Body", type: bodyType };
+        }
+    });
+
+    return types;
+}
+
+function getMethodReturn(
+        method: gapi.client.discovery.RestMethod,
+        schemas: Record<string, gapi.client.discovery.JsonSchema> | undefined,
+        responseType = getResponseType(method, schemas),
+) {
+    checkExists(schemas);
+    const name = schemas["Request"] ? "client.Request" : "Request";
+
+    return `${name}<${responseType}>`;
+}
+
+// methods responding with schema accept global fields parameter which selects properties of the response
+export function supportsPartialResponse(method: gapi.client.discovery.RestMethod, api: gapi.client.discovery.RestDescription) {
+    const schemaName = method.response && method.response.$ref;
+    const schema = schemaName && api.schemas && api.schemas[schemaName];
+
+    return !!(api.parameters && api.parameters.fields && schema && !isEmptySchema(schema));
+}
+
+// detects paginated method: pageToken parameter, nextPageToken response property and single page of items
+export function getPagination(method: gapi.client.discovery.RestMethod, schemas: Record<string, gapi.client.discovery.JsonSchema> | undefined) {
+    const responseType = method.response && method.response.$ref;
+    const response = responseType && schemas && schemas[responseType];
+
+    if (!method.parameters || !method.parameters.pageToken || !response || !response.properties || !response.properties.nextPageToken) {
+        return undefined;
+    }
+
+    const arrays = _.pickBy(response.properties, property => property.type === "array" && property.items);
+    // list responses often contain arrays of strings next to items, e.g. unreachable locations
+    const references = _.pickBy(arrays, property => property.items && property.items.$ref);
+    const candidates = _.size(references) === 1 ? references : arrays;
+
+    if (_.size(candidates) !== 1) {
+        return undefined;
+    }
+
+    const itemsProperty = _.keys(candidates)[0];
+
+    return { responseType, itemsProperty, items: candidates[itemsProperty].items as gapi.client.discovery.JsonSchema };
+}
+
+// names of type aliases declared for methods of the resources and their child resources: request bodies and paginations
+function getMethodTypeNames(resources: Record<string, gapi.client.discovery.RestResource> | undefined, api: gapi.client.discovery.RestDescription, options: AppOptions): string[] {
+    return _.flatMap(resources, (resource, resourceName) => [
+        ...getMethodTypeNames(resource.resources, api, options),
+        ...(options.requestBodyTypes ? _.map(getRequestBodyTypes(resourceName, resource, api.schemas), type => type.typeName) : []),
+        ...(options.pagination
+            ? _.filter(resource.methods, method => !!getPagination(method, api.schemas))
+                .map(method => getMethodParameterInterfaceName(resourceName, method).replace(/Request$/, "Pagination"))
+            : []),
+    ]);
+}
+
+// names of interfaces declared for the resources and their child resources: resources and request parameters of module target
+function getResourceTypeNames(resources: Record<string, gapi.client.discovery.RestResource> | undefined, options: AppOptions): string[] {
+    return _.flatMap(resources, (resource, resourceName) => [
+        ...getResourceTypeNames(resource.resources, options),
+        toIdentifier(firstLetterUp(resourceName) + "Resource"),
+        ...(options.target === "module" ? _.map(resource.methods, method => getMethodParameterInterfaceName(resourceName, method)) : []),
+    ]);
+}
+
+// names of all types declared next to schemas of the API
+function getDeclaredTypeNames(api: gapi.client.discovery.RestDescription, options: AppOptions) {
+    checkExists(api.name, 'api', 'name');
+
+    return new Set([
+        ..._.keys(api.schemas),
+        ...getHelperTypeNames(options),
+        getModuleApiName(api.name),
+        ...(options.scopes ? [getScopeTypeName(api.name), getMethodScopesTypeName(api.name)] : []),
+        ...(options.routes && options.target !== "module" ? [getRoutesTypeName(api.name)] : []),
+        ...getResourceTypeNames(api.resources, options),
+        ...getMethodTypeNames(api.resources, api, options),
+    ]);
+}
+
+type MediaUpload = NonNullable<gapi.client.discovery.RestMethod["mediaUpload"]>;
+
+// returns uploadType values supported by upload protocols of the method
+export function getUploadTypes(mediaUpload: MediaUpload) {
+    const { simple, resumable } = mediaUpload.protocols || { simple: { multipart: true }, resumable: {} };
+
+    return [
+        ...(simple ? ["media"] : []),
+        ...(simple && simple.multipart !== false ? ["multipart"] : []),
+        ...(resumable ? ["resumable"] : []),
+    ];
+}
+
+// MIME type of uploaded media, literal union if all accepted media types are exact (without wildcards)
+function getMediaMimeType(mediaUpload: MediaUpload) {
+    const accept = mediaUpload.accept || [];
+
+    return accept.length && accept.every(mimeType => !mimeType.includes("*"))
+        ? accept.map(mimeType => JSON.stringify(mimeType)).join(" | ")
+        : "string";
+}
+
+// describes upload of media content by raw request, generated methods can't send the content without runtime client
+function getMediaRequestComment(mediaUpload: MediaUpload) {
+    const { simple, resumable } = mediaUpload.protocols || {};
+    const lines = [`Media content is not sent by this method, upload it by raw request (e.g. gapi.client.request) to upload path`];
+
+    if (simple && simple.path) {
+        lines.push(`Simple upload path (uploadType ${simple.multipart !== false ? "media or multipart" : "media"}): ${simple.path}`);
+    }
+
+    if (resumable && resumable.path) {
+        lines.push(`Resumable upload path (uploadType resumable): ${resumable.path}`);
     }
+
+    if (mediaUpload.accept && mediaUpload.accept.length) {
+        lines.push(`Accepted media types: ${mediaUpload.accept.join(", ")}`);
+    }
+
+    if (mediaUpload.maxSize) {
+        lines.push(`Maximum media size: ${mediaUpload.maxSize}`);
+    }
+
+    return lines.join("\n");
+}
+
+function getMediaUploadComment(mediaUpload: MediaUpload) {
+    const { simple, resumable } = mediaUpload.protocols || {};
+    const lines = [`Uploads media content, uploadType selects upload protocol, body contains metadata of multipart and resumable uploads`];
+
+    if (simple && simple.path) {
+        lines.push(`Simple upload path: ${simple.path}`);
+    }
+
+    if (resumable && resumable.path) {
+        lines.push(`Resumable upload path: ${resumable.path}`);
+    }
+
+    if (mediaUpload.accept && mediaUpload.accept.length) {
+        lines.push(`Accepted media types: ${mediaUpload.accept.join(", ")}`);
+    }
+
+    if (mediaUpload.maxSize) {
+        lines.push(`Maximum media size: ${mediaUpload.maxSize}`);
+    }
+
+    return lines.join("\n");
 }
 
 function loadTemplate(name: string) {
@@ -470,6 +1036,8 @@ function loadTemplate(name: string) {
     return doT.template(fs.readFileSync(filename, "utf-8"));
 }
 
+export type Template = (data: any) => string;
+
 const readmeTpl = loadTemplate("readme.dot");
 const tsconfigTpl = loadTemplate("tsconfig.dot");
 const tslintTpl = loadTemplate("tslint.dot");
@@ -496,113 +1064,835 @@ function sortKeys<T>(record: Record<string, T>): Record<string, T> {
         .reduce((curr, { resource, resourceKey }) => ({ ...curr, [resourceKey]: resource }), {})
 }
 
-export class App {
+function sortSchema(schema: gapi.client.discovery.JsonSchema) {
+    if (schema.properties) {
+        schema.properties = sortKeys(schema.properties);
+        _.forEach(schema.properties, sortSchema);
+    }
 
-    private typingsDirectory: string;
+    if (schema.items) {
+        sortSchema(schema.items);
+    }
 
-    private seenSchemaRefs: Set<string> = new Set();
+    if (schema.additionalProperties) {
+        sortSchema(schema.additionalProperties);
+    }
+}
 
-    constructor(private base = __dirname + "/../out/") {
-        this.typingsDirectory = base;
+function sortResource(resource: gapi.client.discovery.RestResource) {
+    if (resource.methods) {
+        resource.methods = sortKeys(resource.methods);
 
-        if (!fs.existsSync(this.base)) {
-            fs.mkdirSync(this.base);
-        }
+        _.forEach(resource.methods, method => {
+            if (method.parameters) {
+                method.parameters = sortKeys(method.parameters);
+                _.forEach(method.parameters, sortSchema);
+            }
+        });
+    }
 
-        if (!fs.existsSync(this.typingsDirectory)) {
-            fs.mkdirSync(this.typingsDirectory);
-        }
+    if (resource.resources) {
+        resource.resources = sortKeys(resource.resources);
+        _.forEach(resource.resources, sortResource);
+    }
+}
 
-        console.log(`base directory: ${this.base}`);
-        console.log(`typings directory: ${this.typingsDirectory}`);
-        console.log();
+// sorts all records of the API (resources, methods, parameters, schemas, properties and scopes) recursively,
+// so that generated files do not depend on order of keys in discovery document
+export function sortApi(api: gapi.client.discovery.RestDescription) {
+    sortResource(api);
+
+    if (api.parameters) {
+        api.parameters = sortKeys(api.parameters);
+        _.forEach(api.parameters, sortSchema);
     }
 
-    static parseVersion(version: string) {
-        var major, minor, patch;
-        var match = version.match(/v(\d+)?(?:\.(\d+))?(.*)?/);
+    if (api.schemas) {
+        api.schemas = sortKeys(api.schemas);
+        _.forEach(api.schemas, sortSchema);
+    }
 
-        if (match) {
-            major = match[1] || 0;
-            minor = match[2];
-            patch = match[3];
+    if (api.auth && api.auth.oauth2 && api.auth.oauth2.scopes) {
+        api.auth.oauth2.scopes = sortKeys(api.auth.oauth2.scopes);
+    }
+}
 
-            return `${major}${minor ? "." + minor : ""}${patch ? "-" + patch : ""}`;
-        }
+function renameReferences(schema: gapi.client.discovery.JsonSchema, identifiers: Record<string, string>) {
+    if (schema.$ref && identifiers[schema.$ref]) {
+        schema.$ref = identifiers[schema.$ref];
     }
 
-    private getResourceTypeName(resourceName: string) {
-        return resourceName[0].toUpperCase() + resourceName.substring(1) + "Resource";
+    _.forEach(schema.properties, property => renameReferences(property, identifiers));
+
+    if (schema.items) {
+        renameReferences(schema.items, identifiers);
     }
 
-    // writes specified resource definition
-    private writeResources(
-            out: TypescriptTextWriter,
-            resources: Record<string, gapi.client.discovery.RestResource> | undefined,
-            parameters: Record<string, gapi.client.discovery.JsonSchema> = {},
-            schemas: Record<string, gapi.client.discovery.JsonSchema> | undefined,
-    ) {
-        forEachOrdered(resources, (resource: gapi.client.discovery.RestResource, resourceName) => {
-            var resourceInterfaceName = this.getResourceTypeName(resourceName);
+    if (schema.additionalProperties) {
+        renameReferences(schema.additionalProperties, identifiers);
+    }
+}
 
-            this.writeResources(out, resource.resources, parameters, schemas);
+function sanitizeResource(resource: gapi.client.discovery.RestResource, identifiers: Record<string, string>) {
+    const parameters = (method: gapi.client.discovery.RestMethod) => _.values(method.parameters);
 
-            out.interface(resourceInterfaceName, () => {
+    _.forEach(resource.methods, method => {
+        [...parameters(method), ...(method.request ? [method.request] : []), ...(method.response ? [method.response] : [])]
+            .forEach(schema => renameReferences(schema, identifiers));
+    });
 
-                forEachOrdered(resource.methods, (method, name) => {
-                    method.description && out.comment(formatComment(method.description));
-                    let requestBody: ({ parameter: string, type: string })[] = [];
-                    const schemaName = method.request?.$ref;
-                    if (schemaName) {
-                        checkExists(schemas);
-                        const schema = schemas[schemaName];
-                        requestBody.push({
-                            parameter: 'body',
-                            type: isEmptySchema(schema) ? 'any' : schemaName,
-                        });
-                    }
+    // child resources and request parameters of methods are declared as interfaces next to each other
+    getIdentifiers(_.keys(resource.resources), "Resources", name => toIdentifier(firstLetterUp(name) + "Resource"));
+    _.forEach(resource.resources, (child, name) => {
+        getIdentifiers(_.map(child.methods, method => method.id || ""), "Methods", id => getMethodParameterInterfaceName(name, { id }));
+        sanitizeResource(child, identifiers);
+    });
+}
+
+// renames schemas which are not valid identifiers or which are reserved (references are updated),
+// throws error if names of declarations collide
+export function sanitizeNames(api: gapi.client.discovery.RestDescription, reservedNames: string[] = []) {
+    const identifiers = getIdentifiers(_.keys(api.schemas), "Schemas", name => {
+        const identifier = toIdentifier(name);
+        return _.includes(reservedNames, identifier) ? identifier + "_" : identifier;
+    });
+
+    api.schemas = _.mapValues(_.mapKeys(api.schemas, (schema, name) => identifiers[name]), (schema, name) => schema.id ? { ...schema, id: name } : schema);
+
+    _.forEach(api.schemas, schema => renameReferences(schema, identifiers));
+    _.forEach(api.parameters, parameter => renameReferences(parameter, identifiers));
+
+    sanitizeResource(api, identifiers);
+}
+
+type Logger = Pick<Console, "log" | "warn" | "error">;
+
+const silentLogger: Logger = { log: () => {}, warn: () => {}, error: () => {} };
+
+interface DownloadResult {
+    statusCode: number;
+    body: string;
+    etag?: string;
+}
+
+// delays before retries of failed downloads
+const retryDelays = [1000, 2000, 4000];
+
+// codes of network errors which may not repeat, e.g. dropped connection or failed DNS lookup
+const transientErrorCodes = new Set([
+    "ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "ESOCKETTIMEDOUT", "EAI_AGAIN", "EPIPE", "ENETUNREACH", "EHOSTUNREACH",
+]);
+
+// transient network errors, rate limiting and server errors are worth retrying
+export function isTransientError(error: { code?: string } | null, statusCode?: number) {
+    if (error) {
+        return error.code !== undefined && transientErrorCodes.has(error.code);
+    }
+
+    return statusCode !== undefined && (statusCode === 429 || statusCode >= 500);
+}
+
+// performs GET request, 304 Not Modified is reported as successful response when etag is specified
+function download(url: string, logger: Logger, etag?: string, attempt = 0): Promise<DownloadResult> {
+    return new Promise((resolve, reject) => {
+        request({ url, headers: etag ? { "If-None-Match": etag } : {} }, (error, response, body) => {
+            if (!error && (response.statusCode == 200 || response.statusCode == 304 && etag)) {
+                resolve({ statusCode: response.statusCode, body, etag: response.headers.etag });
+            }
+            else if (attempt < retryDelays.length && isTransientError(error, response && response.statusCode)) {
+                logger.warn(`Retrying ${url} in ${retryDelays[attempt]}ms: ${error ? error.message : `status code ${response.statusCode}`}`);
+                setTimeout(() => download(url, logger, etag, attempt + 1).then(resolve, reject), retryDelays[attempt]);
+            }
+            else {
+                logger.error("Got an error: ", error, ", status code: ", response && response.statusCode);
+                reject(error || new Error(`Unexpected status code ${response.statusCode} for ${url}`));
+            }
+        });
+    });
+}
+
+// maps items by at most concurrency iterators running at the same time, results keep order of items
+export async function mapConcurrently<T, R>(items: T[], concurrency: number, iterator: (item: T) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await iterator(items[index]);
+        }
+    };
+
+    await Promise.all(_.times(Math.min(concurrency, items.length), worker));
+
+    return results;
+}
+
+export interface ApiFilter {
+    /** Glob patterns of API names or ids to select, all APIs by default */
+    include?: string[];
+    /** Glob patterns of API names or ids to skip in addition to built-in exclusions */
+    exclude?: string[];
+}
+
+// selects APIs from directory which should be processed
+export function selectApis(list: gapi.client.discovery.DirectoryList, service?: string, filter: ApiFilter = {}) {
+    const { include } = filter;
+    const exclude = [...excludedApi, ...(filter.exclude || [])];
+    const matches = (api: DirectoryItem, patterns: string[]) =>
+        patterns.some(pattern => matchesGlob(api.name || '', pattern) || matchesGlob(api.id || '', pattern));
+
+    return _.filter(list.items, api => service == null || api.name === service)
+        .filter(api => !include || matches(api, include))
+        .filter(api => !matches(api, exclude));
+}
+
+type DirectoryItem = NonNullable<gapi.client.discovery.DirectoryList["items"]>[0];
+
+function getPreferredApi(items: DirectoryItem[]) {
+    return items.find(x => x.preferred)
+        || items.sort((a, b) => (a.version || '') > (b.version || '') ? 1 : - 1)[0];
+}
+
+interface CacheEntry {
+    /** File name inside of cache directory */
+    file: string;
+    etag?: string;
+    revision?: string;
+    /** ISO timestamp of last download */
+    updated: string;
+}
+
+interface CacheMetadata {
+    /** Version of cache layout, cache written in other version is discarded */
+    version: number;
+    /** Cached documents keyed by url */
+    documents: Record<string, CacheEntry>;
+}
+
+const cacheFileName = "cache.json";
+
+const cacheVersion = 1;
+
+// local cache of discovery documents, the cache directory can be used with --from-dir as well
+export class DiscoveryCache {
+
+    private metadata: CacheMetadata;
+
+    private changedUrls: Set<string> = new Set();
+
+    constructor(private directory: string, private logger: Logger = console) {
+        ensureDirectoryExists(directory);
+
+        const filename = path.join(directory, cacheFileName);
+        const metadata: CacheMetadata | undefined = fs.existsSync(filename)
+            ? JSON.parse(fs.readFileSync(filename, "utf-8"))
+            : undefined;
+
+        this.metadata = metadata && metadata.version === cacheVersion
+            ? metadata
+            : { version: cacheVersion, documents: {} };
+    }
+
+    // downloads document unless cached copy is still valid (server replies 304 Not Modified for cached ETag)
+    public async request<T>(url: string): Promise<T> {
+        const entry: CacheEntry | undefined = this.metadata.documents[url];
+        const cachedFile = entry && path.join(this.directory, entry.file);
+        const response = await download(url, this.logger, cachedFile && fs.existsSync(cachedFile) ? entry.etag : undefined);
+
+        if (response.statusCode === 304) {
+            return JSON.parse(fs.readFileSync(cachedFile, "utf-8")) as T;
+        }
+
+        const document = JSON.parse(response.body);
+        const file = document.kind === "discovery#directoryList"
+            ? directoryFileName
+            : getDiscoveryFileName(document.name, document.version);
+
+        if (!entry || !document.revision || entry.revision !== document.revision) {
+            this.changedUrls.add(url);
+        }
+
+        fs.writeFileSync(path.join(this.directory, file), response.body);
+
+        this.metadata.documents[url] = {
+            file,
+            etag: response.etag,
+            revision: document.revision,
+            updated: new Date().toISOString(),
+        };
+
+        this.save();
+
+        return document as T;
+    }
+
+    // returns true if document revision has changed since previous run
+    public hasChanged(url: string) {
+        return this.changedUrls.has(url);
+    }
+
+    // downloads directory list and REST descriptions of all (or specified) APIs, returns URLs which could not be downloaded
+    public async snapshot(service?: string, filter?: ApiFilter) {
+        this.logger.log(`Downloading discovery documents to ${this.directory}...`);
+
+        const list = await this.request<gapi.client.discovery.DirectoryList>(discoveryUrl);
+        const failed: string[] = [];
+
+        for (const item of selectApis(list, service, filter)) {
+            checkExists(item.discoveryRestUrl, 'directory item', 'discoveryRestUrl');
+
+            try {
+                const api = await this.request<gapi.client.discovery.RestDescription>(item.discoveryRestUrl);
+                this.logger.log(`${api.id} revision ${api.revision}${this.hasChanged(item.discoveryRestUrl) ? "" : " (not changed)"}`);
+            } catch (e) {
+                this.logger.error(`Could not download ${item.discoveryRestUrl}`, e);
+                failed.push(item.discoveryRestUrl);
+            }
+        }
+
+        return failed;
+    }
+
+    private save() {
+        fs.writeFileSync(path.join(this.directory, cacheFileName), JSON.stringify(this.metadata, null, 2));
+    }
+}
+
+export type OutputTarget = "namespace" | "module";
+
+export type VerifyMode = "report" | "fail";
+
+export interface ServiceResult {
+    /** Url of the discovery document */
+    url: string;
+    /** API id, unknown if the discovery document could not be loaded */
+    id?: string;
+    /** "outdated" - files on disk differ from generated ones (check mode) */
+    status: "generated" | "skipped" | "failed" | "outdated";
+    error?: string;
+    /** Compilation errors of generated files (verify mode) */
+    diagnostics?: string[];
+    /** Milliseconds */
+    elapsed: number;
+}
+
+// file name of the manifest written to directory of every API
+export const manifestFileName = "manifest.json";
+
+export interface OutputManifest {
+    id?: string;
+    revision?: string;
+    /** SHA-256 hashes of generated files by path relative to the manifest */
+    files: Record<string, string>;
+}
+
+// reads manifest of previous generation, missing or invalid manifest is ignored
+function readManifest(directory: string): OutputManifest | undefined {
+    const filename = path.join(directory, manifestFileName);
+
+    try {
+        return fs.existsSync(filename) ? JSON.parse(fs.readFileSync(filename, "utf-8")) : undefined;
+    } catch (e) {
+        return undefined;
+    }
+}
+
+// removes file by path relative to the directory, and its parent directories left empty
+function removeFile(directory: string, relativePath: string) {
+    fs.unlinkSync(path.join(directory, relativePath));
+
+    for (let parent = path.dirname(relativePath); parent !== "."; parent = path.dirname(parent)) {
+        if (fs.readdirSync(path.join(directory, parent)).length > 0) {
+            break;
+        }
+
+        fs.rmdirSync(path.join(directory, parent));
+    }
+}
+
+interface ServiceOutput {
+    directory: string;
+    /** Hashes of written files by relative path */
+    files: Record<string, string>;
+    /** Generated contents of files by relative path, verified instead of files on disk */
+    contents: Record<string, string>;
+    /** Relative paths of files which differ from generated ones (check mode) */
+    outdated: string[];
+}
+
+export interface GenerationSummary {
+    results: ServiceResult[];
+    /** Typings directories of APIs and versions which are not generated anymore, relative to output directory (prune mode) */
+    orphaned?: string[];
+    /** Milliseconds */
+    elapsed: number;
+}
+
+export interface PluginContext {
+    /** Normalized REST description (lower-case name and version, sorted resources) */
+    api: gapi.client.discovery.RestDescription;
+    /** Url of the discovery document */
+    url: string;
+    destinationDirectory: string;
+    options: AppOptions;
+    /** Creates writer of the file in destination directory, the writer has to be ended */
+    createWriter(filename: string): TypescriptTextWriter;
+}
+
+export interface SchemaEvent {
+    api: gapi.client.discovery.RestDescription;
+    /** Writer of typings positioned after the schema interface */
+    writer: TypescriptTextWriter;
+    name: string;
+    schema: gapi.client.discovery.JsonSchema;
+}
+
+export interface MethodEvent {
+    api: gapi.client.discovery.RestDescription;
+    /** Writer of typings positioned inside of the resource interface after the method signatures */
+    writer: TypescriptTextWriter;
+    resourceName: string;
+    method: gapi.client.discovery.RestMethod;
+}
+
+export interface GeneratorPlugin {
+    name: string;
+    /** Templates (doT template paths or compiled templates) by output file name, built-in ones are readme.md, tsconfig.json and tslint.json */
+    templates?: Record<string, string | Template>;
+    /** Called for every schema written to typings */
+    onSchema?(event: SchemaEvent): void;
+    /** Called for every method written to typings */
+    onMethod?(event: MethodEvent): void;
+    /** Called for every API after built-in output is written */
+    emit?(context: PluginContext): void | Promise<void>;
+}
+
+export interface AppOptions {
+    /**
+     * "namespace" (default) - global gapi.client.<api> namespaces for the browser gapi loader,
+     * "module" - ES module per API exporting schemas, request parameters and resources
+     */
+    target?: OutputTarget;
+    /** Emit per-method request body types without output only properties and with properties required by the method */
+    requestBodyTypes?: boolean;
+    /** Emit method overloads for media download (alt=media) and media upload (uploadType) */
+    media?: boolean;
+    /** Emit OAuth scope union and per-method scope types, and scope constants (scopes.ts) */
+    scopes?: boolean;
+    /** Emit Paginated types describing request, response and items of paginated list methods */
+    pagination?: boolean;
+    /** Emit method overloads returning only properties selected by literal value of fields parameter (see ParseFields), and fields() builder (fields.ts) */
+    partialResponses?: boolean;
+    /** Emit lookup type of methods by HTTP method and path for typed gapi.client.request calls, requires "namespace" target */
+    routes?: boolean;
+    /** Emit runtime client (client.ts) next to module typings, requires "module" target */
+    client?: boolean;
+    /** Emit runtime validators and type guards for schemas (validators.ts) */
+    validators?: boolean;
+    /** Emit JSON Schema document of the specified draft for every schema (json-schema/<Schema>.json) */
+    jsonSchema?: JsonSchemaDraft;
+    /** Emit named type aliases for enum-valued schema properties instead of inline unions */
+    enumTypeAliases?: boolean;
+    /** Types used for formatted strings and numbers, keyed by discovery format (see defaultFormatTypes) */
+    formatTypes?: Record<string, string>;
+    /** Local directory with discovery documents used instead of Google API discovery service */
+    discoveryDirectory?: string;
+    /** Directory of discovery documents cache, APIs with unchanged revision are not regenerated */
+    cacheDirectory?: string;
+    /** Regenerate APIs even if their revision has not changed */
+    force?: boolean;
+    /** Glob patterns of API names or ids to generate */
+    include?: string[];
+    /** Glob patterns of API names or ids excluded from generation in addition to excludedApi */
+    exclude?: string[];
+    /** Versions generated instead of preferred version by API name */
+    versions?: Record<string, string | string[]>;
+    /** Overrides of TypeScript types by discovery type (see typesMap) */
+    typesMap?: Record<string, string>;
+    /** Header of namespace typings */
+    header?: GeneratorConfig["header"];
+    /** Layout of directories of non-preferred versions */
+    layout?: OutputLayout;
+    /** Paths of doT templates used instead of the built-in ones */
+    templates?: GeneratorConfig["templates"];
+    /** Comment lines are wrapped at this length */
+    maxCommentLine?: number;
+    /** Plugins with additional emitters and templates, applied in order */
+    plugins?: GeneratorPlugin[];
+    /** Number of services processed at the same time (1 by default) */
+    concurrency?: number;
+    /** Compare generated files with files on disk instead of writing them, differing services are reported as outdated */
+    check?: boolean;
+    /** Remove typings directories of APIs and versions which are not generated anymore (only report them in check mode) */
+    prune?: boolean;
+    /** Compile generated files of every API against gapi.client typings, "fail" - services with compilation errors are failed */
+    verify?: VerifyMode;
+    /** Do not log progress, warnings and errors (results are reported by returned values) */
+    quiet?: boolean;
+}
+
+export class App {
+
+    private typingsDirectory: string;
+
+    private seenSchemaRefs: Set<string> = new Set();
+
+    private cache?: DiscoveryCache;
+
+    private types: Record<string, string>;
+
+    /** Templates of namespace target by output file name */
+    private templates: Record<string, Template>;
+
+    private plugins: GeneratorPlugin[];
+
+    /** Outputs of services being generated by their directories */
+    private outputs = new Map<string, ServiceOutput>();
+
+    private logger: Logger;
+
+    constructor(private base = __dirname + "/../out/", private options: AppOptions = {}) {
+        this.typingsDirectory = base;
+        this.types = { ...typesMap, ...options.typesMap };
+        this.logger = options.quiet ? silentLogger : console;
+
+        this.plugins = options.plugins || [];
+
+        const templates = options.templates || {};
+
+        this.templates = {
+            "readme.md": templates.readme ? loadTemplate(templates.readme) : readmeTpl,
+            "tsconfig.json": templates.tsconfig ? loadTemplate(templates.tsconfig) : tsconfigTpl,
+            "tslint.json": templates.tslint ? loadTemplate(templates.tslint) : tslintTpl,
+        };
+
+        // plugins can add templates or replace the built-in ones
+        for (const plugin of this.plugins) {
+            _.forEach(plugin.templates, (template, filename) => {
+                this.templates[filename] = typeof template === "string" ? loadTemplate(template) : template;
+            });
+        }
+
+        if (options.client && options.target !== "module") {
+            throw new Error(`Runtime client can be generated for "module" target only`);
+        }
+
+        if (options.cacheDirectory) {
+            this.cache = new DiscoveryCache(options.cacheDirectory, this.logger);
+        }
+
+        if (!fs.existsSync(this.base)) {
+            fs.mkdirSync(this.base);
+        }
+
+        if (!fs.existsSync(this.typingsDirectory)) {
+            fs.mkdirSync(this.typingsDirectory);
+        }
+
+        this.logger.log(`base directory: ${this.base}`);
+        this.logger.log(`typings directory: ${this.typingsDirectory}`);
+        this.logger.log();
+    }
+
+    static parseVersion(version: string) {
+        var major, minor, patch;
+        var match = version.match(/v(\d+)?(?:\.(\d+))?(.*)?/);
+
+        if (match) {
+            major = match[1] || 0;
+            minor = match[2];
+            patch = match[3];
+
+            return `${major}${minor ? "." + minor : ""}${patch ? "-" + patch : ""}`;
+        }
+    }
+
+    private getResourceTypeName(resourceName: string) {
+        return toIdentifier(firstLetterUp(resourceName) + "Resource");
+    }
+
+    // writes specified resource definition
+    private writeResources(
+            out: TypescriptTextWriter,
+            resources: Record<string, gapi.client.discovery.RestResource> | undefined,
+            parameters: Record<string, gapi.client.discovery.JsonSchema> = {},
+            schemas: Record<string, gapi.client.discovery.JsonSchema> | undefined,
+            api: gapi.client.discovery.RestDescription,
+    ) {
+        forEachOrdered(resources, (resource: gapi.client.discovery.RestResource, resourceName) => {
+            var resourceInterfaceName = this.getResourceTypeName(resourceName);
+
+            this.writeResources(out, resource.resources, parameters, schemas, api);
+
+            const isModule = this.options.target === "module";
+
+            if (isModule) {
+                // request parameters are exported as named interfaces
+                forEachOrdered(resource.methods, (method) => {
                     checkExists(method.id, 'method', 'id');
-                    out.method(getName(method.id), [{
-                        parameter: "request",
-                        type: (writer: TypescriptTextWriter) => {
-                            writer.anonymysType(() => {
-                                const requestParameters: typeof parameters = { ...parameters, ...method.parameters };
-
-                                forEachOrdered(requestParameters, (data, key) => {
-                                    data.description && writer.comment(formatComment(data.description));
-                                    writer.property(key, getType(data, schemas), data.required || false);
-                                });
-                            });
-                        }
+                    out.interface(getMethodParameterInterfaceName(resourceName, method), () => {
+                        this.writeRequestParameters(out, { ...parameters, ...method.parameters }, schemas);
+                    });
+                });
+            }
+
+            const requestBodyTypes = this.options.requestBodyTypes ? this.writeRequestBodyTypes(out, resourceName, resource, schemas) : {};
+
+            out.interface(resourceInterfaceName, () => {
+
+                forEachOrdered(resource.methods, (method, name) => {
+                    checkExists(method.id, 'method', 'id');
+
+                    for (const signature of this.getMethodSignatures(resourceName, method, name, parameters, schemas, api, requestBodyTypes)) {
+                        out.comment(signature.comment);
+                        out.method(formatPropertyName(getName(method.id)) + signature.typeParameters, signature.parameters, signature.returnType);
+                    }
 
-                    }, ...requestBody], getMethodReturn(method, schemas));
+                    this.plugins.forEach(plugin => plugin.onMethod && plugin.onMethod({ api, writer: out, resourceName, method }));
                 });
 
                 forEachOrdered(resource.resources, (childResource, childResourceName) => {
-                    var childResourceInterfaceName = childResourceName[0].toUpperCase() + childResourceName.substring(1) + "Resource";
-                    out.property(childResourceName, childResourceInterfaceName);
+                    out.property(childResourceName, this.getResourceTypeName(childResourceName));
+                });
+
+            });
+
+            if (this.options.pagination) {
+                this.writePaginationTypes(out, resourceName, resource, parameters, schemas);
+            }
+
+        });
+    }
+
+    // signatures of method overloads, specific overloads precede the regular signature (the last one) which accepts any parameter values,
+    // type names of module target can be qualified by namespace, e.g. types.Book
+    private getMethodSignatures(
+            resourceName: string,
+            method: gapi.client.discovery.RestMethod,
+            name: string,
+            parameters: Record<string, gapi.client.discovery.JsonSchema>,
+            schemas: Record<string, gapi.client.discovery.JsonSchema> | undefined,
+            api: gapi.client.discovery.RestDescription,
+            requestBodyTypes: Record<string, string>,
+            namespace = "",
+    ): MethodSignature[] {
+        const isModule = this.options.target === "module";
+        const signatures: MethodSignature[] = [];
+        // void and {} responses are not declared types
+        const declaredResponse = method.response && getResponseType(method, schemas) !== "{}";
+        const responseType = `${declaredResponse ? namespace : ""}${getResponseType(method, schemas)}`;
+        const getReturnType = (type: string) => isModule ? `Promise<${type}>` : getMethodReturn(method, schemas, type);
+
+        let requestBody: ({ parameter: string, type: string })[] = [];
+        const schemaName = method.request?.$ref;
+        if (schemaName) {
+            checkExists(schemas);
+            const schema = schemas[schemaName];
+            requestBody.push({
+                parameter: 'body',
+                type: isEmptySchema(schema) ? 'any' : namespace + (requestBodyTypes[name] || schemaName),
+            });
+        }
+
+        // overrides replace request parameters of the same name, type overrides replace their types and make them required
+        const getRequestType = (overrides: Record<string, gapi.client.discovery.JsonSchema> = {}, typeOverrides: Record<string, string> = {}) => isModule
+            ? [namespace + getMethodParameterInterfaceName(resourceName, method),
+                ..._.map(overrides, (data, key) => `{ ${formatPropertyName(key)}: ${getType(data, schemas, {}, this.types)} }`),
+                ..._.map(typeOverrides, (type, key) => `{ ${formatPropertyName(key)}: ${type} }`)].join(" & ")
+            : (writer: TypescriptTextWriter) => {
+                writer.anonymysType(() => {
+                    this.writeRequestParameters(writer, { ...parameters, ...method.parameters, ...overrides }, schemas, typeOverrides);
                 });
+            };
+
+        if (this.options.media && method.supportsMediaDownload) {
+            // must precede regular signature which accepts any alt value
+            signatures.push({
+                comment: getMethodComment(method, api.documentationLink, `Downloads media content, raw content is available in body of the response`),
+                typeParameters: "",
+                parameters: [{
+                    parameter: "request",
+                    type: getRequestType({ alt: { type: "string", enum: ["media"], required: true, description: "Media download" } }),
+                }],
+                returnType: getReturnType("unknown"),
+            });
+        }
 
+        if (this.options.partialResponses && supportsPartialResponse(method, api)) {
+            // must precede regular signature which accepts any fields value, selection of fields() builder precedes literal value
+            signatures.push({
+                comment: getMethodComment(method, api.documentationLink, `Response contains only properties selected by fields parameter built by fields()`),
+                typeParameters: `<TSelection extends ${namespace}FieldSelection<${responseType}>>`,
+                parameters: [{
+                    parameter: "request",
+                    type: getRequestType({}, { fields: `${namespace}Fields<TSelection>` }),
+                }, ...requestBody],
+                returnType: getReturnType(`${namespace}PartialResponse<${responseType}, TSelection>`),
+            }, {
+                comment: getMethodComment(method, api.documentationLink, `Response contains only properties selected by literal value of fields parameter`),
+                typeParameters: `<TFields extends string>`,
+                parameters: [{
+                    parameter: "request",
+                    type: getRequestType({}, { fields: "TFields" }),
+                }, ...requestBody],
+                returnType: getReturnType(`${namespace}FieldsResponse<${responseType}, TFields>`),
             });
+        }
+
+        const mediaUpload = this.options.media && method.supportsMediaUpload ? method.mediaUpload : undefined;
+
+        if (mediaUpload && emitsMediaUploads(this.options)) {
+            // must precede regular signature which accepts any uploadType value
+            const uploadTypes = getUploadTypes(mediaUpload);
+
+            signatures.push({
+                comment: getMethodComment(method, api.documentationLink, getMediaUploadComment(mediaUpload)),
+                typeParameters: "",
+                parameters: [{
+                    parameter: "request",
+                    type: getRequestType({ uploadType: { type: "string", enum: uploadTypes, required: true, description: "Upload protocol" } },
+                        { media: `${namespace}MediaContent<${getMediaMimeType(mediaUpload)}>` }),
+                }, ...requestBody.map(body => ({ ...body, parameter: body.parameter + "?" }))],
+                returnType: getReturnType(responseType),
+            });
+        }
+
+        signatures.push({
+            comment: getMethodComment(method, api.documentationLink, mediaUpload && !emitsMediaUploads(this.options) ? getMediaRequestComment(mediaUpload) : undefined),
+            typeParameters: "",
+            parameters: [{
+                parameter: "request",
+                type: getRequestType(),
+            }, ...requestBody],
+            returnType: getReturnType(responseType),
+        });
+
+        return signatures;
+    }
+
+    // writes Paginated type for every method which accepts pageToken and responds with nextPageToken and page of items
+    private writePaginationTypes(
+            out: TypescriptTextWriter,
+            resourceName: string,
+            resource: gapi.client.discovery.RestResource,
+            parameters: Record<string, gapi.client.discovery.JsonSchema>,
+            schemas: Record<string, gapi.client.discovery.JsonSchema> | undefined,
+    ) {
+        const isModule = this.options.target === "module";
+
+        forEachOrdered(resource.methods, (method) => {
+            const pagination = getPagination(method, schemas);
+
+            if (!pagination) {
+                return;
+            }
+
+            checkExists(method.id, 'method', 'id');
+
+            const typeArguments = `${pagination.responseType}, ${getType(pagination.items, schemas, this.options.formatTypes, this.types)}, ${JSON.stringify(pagination.itemsProperty)}`;
+
+            out.comment(`Pagination of ${method.id}, items are returned in ${pagination.itemsProperty} property`);
+            // namespace target doesn't declare request types, parameters of regular method signature are written inline
+            out.typeAlias(getMethodParameterInterfaceName(resourceName, method).replace(/Request$/, "Pagination"), isModule
+                ? `Paginated<${getMethodParameterInterfaceName(resourceName, method)}, ${typeArguments}>`
+                : (writer: TypescriptTextWriter) => {
+                    writer.write(`Paginated<`);
+                    writer.anonymysType(() => {
+                        this.writeRequestParameters(writer, { ...parameters, ...method.parameters }, schemas);
+                    });
+                    writer.write(`, ${typeArguments}>`);
+                });
+        });
+    }
+
+    // writes request body types of resource methods which differ from request schema, returns them by method name
+    private writeRequestBodyTypes(
+            out: TypescriptTextWriter,
+            resourceName: string,
+            resource: gapi.client.discovery.RestResource,
+            schemas: Record<string, gapi.client.discovery.JsonSchema> | undefined,
+    ) {
+        const bodyTypes = getRequestBodyTypes(resourceName, resource, schemas);
+
+        forEachOrdered(bodyTypes, ({ typeName, type }, name) => {
+            out.comment(`Request body of ${resource.methods![name].id}`);
+            out.typeAlias(typeName, type);
+        });
 
+        return _.mapValues(bodyTypes, bodyType => bodyType.typeName);
+    }
+
+    private writeRequestParameters(
+            out: TypescriptTextWriter,
+            parameters: Record<string, gapi.client.discovery.JsonSchema>,
+            schemas: Record<string, gapi.client.discovery.JsonSchema> | undefined,
+            typeOverrides: Record<string, string> = {},
+    ) {
+        // type overrides can add parameters as well
+        forEachOrdered({ ..._.mapValues(typeOverrides, () => ({})), ...parameters }, (data: gapi.client.discovery.JsonSchema, key) => {
+            out.comment(getParameterComment(data));
+            out.property(key, typeOverrides[key] || getType(data, schemas, this.options.formatTypes, this.types), key in typeOverrides || data.required || false);
+        });
+    }
+
+    // writes type aliases for enum-valued properties of the schema, returns property types referencing them,
+    // declaredNames are names of all types of the namespace, written aliases are added to them
+    private writeEnumAliases(
+            out: TypescriptTextWriter,
+            schema: gapi.client.discovery.JsonSchema,
+            declaredNames: Set<string>,
+    ) {
+        const types: Record<string, string> = {};
+
+        forEachOrdered(schema.properties, (data, key) => {
+            const enumSchema = getEnumSchema(data);
+
+            if (!enumSchema) {
+                return;
+            }
+
+            const aliasName = schema.id + _.upperFirst(_.camelCase(key));
+
+            if (declaredNames.has(aliasName)) {
+                // alias would clash with schema, another alias (e.g. Foo.barBaz and FooBar.baz) or generated type, keep inline union
+                return;
+            }
+
+            declaredNames.add(aliasName);
+
+            out.comment(getComment({ ...enumSchema, description: data.description }));
+            out.typeAlias(aliasName, getEnumType(enumSchema));
+
+            if (enumSchema === data) {
+                types[key] = data.repeated ? `${aliasName} | ${aliasName}[]` : aliasName;
+            } else {
+                types[key] = `${aliasName}[]`;
+            }
         });
+
+        return types;
     }
 
-    private getTypingsName(api: string, version: string) {
+    private getTypingsName(api: string, version?: string | null) {
+        const name = this.options.target === "module" ? api : `gapi.client.${api}`;
+
         if (version == null)
-            return `gapi.client.${api}`;
+            return name;
+        else if (this.options.layout === "flat")
+            return `${name}-${version}`;
         else
-            return path.join(`gapi.client.${api}`, version);
+            return path.join(name, version);
     }
 
-    private getTypingsDirectory(api: string, version: string) {
+    private getTypingsDirectory(api: string, version?: string | null) {
         return path.join(this.typingsDirectory, this.getTypingsName(api, version));
     }
 
     /// writes api description for specified JSON object
     private processApi(destinationDirectory: string, api: gapi.client.discovery.RestDescription, actualVersion: boolean, url: string) {
 
-        console.log(`Generating ${api.id} definitions... ${api.labels && api.labels.join(", ") || ""}`);
+        this.logger.log(`Generating ${api.id} definitions... ${api.labels && api.labels.join(", ") || ""}`);
 
         const rawMethods = processResource(api);
 
@@ -613,22 +1903,35 @@ export class App {
         })),
             grouped = _.groupBy(methods, method => method.namespace),
             filename = "index.d.ts",//"gapi.client." + api.name + (actualVersion ? "" : "-" + api.version) + ".d.ts",
-            stream = fs.createWriteStream(path.join(destinationDirectory, filename)),
-            writer = new TypescriptTextWriter(new IndentedTextWriter(new StreamWriter(stream))),
+            writer = this.createWriter(path.join(destinationDirectory, filename)),
             rootNamespace = `gapi.client.${api.name}`;
 
+        if (this.options.target === "module") {
+            this.writeModule(writer, api, url);
+            writer.end();
+            return;
+        }
+
         writer.writeLine(`// Type definitions for non-npm package ${api.ownerName} ${api.title} ${api.version} ${convertVersion(api.version || '')}`);
         writer.writeLine(`// Project: ${api.documentationLink}`);
-        writer.writeLine(`// Definitions by: Bolisov Alexey <https://github.com/Bolisov>`);
-        writer.writeLine(`//                 Declan Vong <https://github.com/declanvong>`);
+        const header = this.options.header || {};
+
+        (header.authors || defaultAuthors).forEach((author, index) =>
+            writer.writeLine(`// ${index === 0 ? "Definitions by: " : "                "}${author}`));
         writer.writeLine(`// Definitions: https://github.com/DefinitelyTyped/DefinitelyTyped`);
-        writer.writeLine(`// TypeScript Version: 3.7`);
+        writer.writeLine(`// TypeScript Version: ${header.typescriptVersion || "4.1"}`);
         writer.writeLine();
         writer.writeLine(`// IMPORTANT`);
         writer.writeLine(`// These definitions are for the Google API Javascript Client: https://github.com/google/google-api-javascript-client`);
         writer.writeLine(`// This file was generated by https://github.com/declanvong/google-api-typings-generator. Please do not edit it manually.`);
         writer.writeLine(`// In case of any problems please post issue to https://github.com/declanvong/google-api-typings-generator`);
         writer.writeLine(`// Generated from: ${url}`);
+
+        if (header.text) {
+            writer.writeLine();
+            header.text.split(/\r?\n/).forEach(line => writer.writeLine(line ? `// ${line}` : `//`));
+        }
+
         writer.writeLine();
         writer.referenceTypes("gapi.client");
 
@@ -654,116 +1957,985 @@ export class App {
 
 
             checkExists(api.name, 'api', 'name');
-            writer.namespace(api.name, () => {
-
-                forEachOrdered(api.schemas, (schema, key) => {
-                    checkExists(schema.id);
-                    if (!isEmptySchema(schema)) {
-                        writer.interface(schema.id, () => {
-                            forEachOrdered(schema.properties, (data, key) => {
-                                data.description && writer.comment(formatComment(data.description));
-                                writer.property(key, getType(data, api.schemas), data.required || false);
-                            });
-
-                            if (schema.additionalProperties) {
-                                writer.property("[key: string]", getType(schema.additionalProperties, api.schemas));
-                            }
-                        });
+            const apiName = api.name;
+            // root resources named by reserved words (e.g. debugger) can't be declared as namespace members,
+            // then the namespace declares types only and all root resources are properties of the API object of the same name
+            const declareResources = _.every(_.keys(api.resources), isDeclarationName);
+
+            writer.namespace(apiName, () => {
+
+                this.writeHelperTypes(writer);
+                this.writeDefinitions(writer, api);
+
+                if (declareResources) {
+                    forEachOrdered(api.resources, (resource, resourceName) => {
+                        writer.endLine();
+                        writer.writeLine(`const ${resourceName}: ${this.getResourceTypeName(resourceName)};`);
+                    });
+                } else {
+                    writer.endLine();
+                    writer.comment(formatComment(`Root resources of ${api.title} ${api.version}`));
+                    writer.interface(getModuleApiName(apiName), () => {
+                        forEachOrdered(api.resources, (resource, resourceName) => {
+                            writer.property(resourceName, this.getResourceTypeName(resourceName));
+                        });
+                    });
+                }
+            });
+
+            if (!declareResources) {
+                writer.endLine();
+                writer.writeLine(`const ${apiName}: ${apiName}.${getModuleApiName(apiName)};`);
+            }
+
+        });
+
+        writer.end();
+    }
+
+    // writes ES module which exports all API types without augmenting global gapi.client namespace
+    private writeModule(writer: TypescriptTextWriter, api: gapi.client.discovery.RestDescription, url: string) {
+        checkExists(api.name, 'api', 'name');
+
+        writer.writeLine(`// Type definitions for ${api.ownerName} ${api.title} ${api.version}`);
+        writer.writeLine(`// Project: ${api.documentationLink}`);
+        writer.writeLine();
+        writer.writeLine(`// IMPORTANT`);
+        writer.writeLine(`// This file was generated by https://github.com/declanvong/google-api-typings-generator. Please do not edit it manually.`);
+        writer.writeLine(`// In case of any problems please post issue to https://github.com/declanvong/google-api-typings-generator`);
+        writer.writeLine(`// Generated from: ${url}`);
+
+        writer.exportDeclarations = true;
+
+        writer.writeLine();
+        this.writeHelperTypes(writer);
+        this.writeDefinitions(writer, api);
+
+        writer.comment(formatComment(`${api.title} ${api.version}`));
+        writer.interface(getModuleApiName(api.name), () => {
+            forEachOrdered(api.resources, (resource, resourceName) => {
+                writer.property(resourceName, this.getResourceTypeName(resourceName));
+            });
+        });
+    }
+
+    // writes types referenced by declarations of the API: format types, Paginated, MediaContent and partial response types,
+    // they are part of every generated package, so the package does not depend on a particular version of gapi.client typings
+    private writeHelperTypes(writer: TypescriptTextWriter) {
+        const formatTypes = getFormatTypeNames(this.options);
+
+        if (formatTypes.length) {
+            formatTypes.forEach(formatType => {
+                writer.comment(formatTypeDeclarations[formatType].description);
+                writer.typeAlias(formatType, formatTypeDeclarations[formatType].type);
+            });
+            writer.endLine();
+        }
+
+        if (this.options.pagination) {
+            writer.comment(`Describes paginated method: request accepts pageToken, response contains nextPageToken and page of items`);
+            writer.interface(`Paginated<TRequest extends { pageToken?: string }, TResponse extends { nextPageToken?: string }, TItem, TItemsProperty extends keyof TResponse>`, () => {
+                writer.property("request", "TRequest");
+                writer.property("response", "TResponse");
+                writer.property("item", "TItem");
+                writer.property("itemsProperty", "TItemsProperty");
+            });
+            writer.endLine();
+        }
+
+        if (emitsMediaUploads(this.options)) {
+            writer.comment(`Media content of upload request, TMimeType are accepted media types of the method`);
+            writer.interface(`MediaContent<TMimeType extends string = string>`, () => {
+                writer.comment(`MIME type of the content, one of accepted media types of the method`);
+                writer.property("mimeType", "TMimeType");
+                writer.property("body", "string | Blob | ArrayBuffer | ArrayBufferView");
+            });
+            writer.endLine();
+        }
+
+        if (this.options.partialResponses) {
+            writer.comment(`Selection of response properties, true selects whole property, nested selection selects properties of objects and items of arrays`);
+            writer.typeAlias(`FieldSelection<T>`, `{ [P in keyof T]?: true | NestedFieldSelection<NonNullable<T[P]>> }`);
+            writer.typeAlias(`NestedFieldSelection<T>`, `T extends Array<infer TItem> ? (TItem extends object ? FieldSelection<TItem> : never) : T extends object ? FieldSelection<T> : never`);
+            writer.comment(`Value of fields parameter which selects TSelection properties of the response`);
+            writer.typeAlias(`Fields<TSelection>`, `string & { readonly __selection?: TSelection }`);
+            writer.comment(`Response containing only properties selected by fields parameter, * selects all properties`);
+            writer.typeAlias(`PartialResponse<T, TSelection>`, `"*" extends keyof TSelection ? T : PickFields<T, Extract<keyof T, keyof TSelection>, TSelection>`);
+            writer.typeAlias(`PickFields<T, K extends keyof T, TSelection>`,
+                `{ [P in K]: P extends keyof TSelection ? (TSelection[P] extends true ? T[P] : PartialField<T[P], TSelection[P]>) : never }`);
+            writer.typeAlias(`PartialField<T, TSelection>`,
+                `T extends Array<infer TItem> ? Array<PartialResponse<TItem, TSelection>> : T extends object ? PartialResponse<T, TSelection> : T`);
+            writer.comment(`Response containing only properties selected by literal value of fields parameter (e.g. "items(id,name),nextPageToken"), whole response if the value isn't literal or can't be parsed`);
+            writer.typeAlias(`FieldsResponse<T, TFields extends string>`, `ParseFields<TFields> extends infer TSelection ? ([TSelection] extends [never] ? T : PartialResponse<T, TSelection>) : never`);
+            writer.comment(`Selection of response properties by literal value of fields parameter, never if the value isn't literal or can't be parsed`);
+            writer.typeAlias(`ParseFields<TFields extends string>`,
+                `string extends TFields ? never : ParseFieldList<TFields> extends [infer TSelection, infer TRest] ? (TRest extends "" ? TSelection : never) : never`);
+            writer.comment(`[selection, rest of value] of fields up to closing parenthesis or end of value`);
+            writer.typeAlias(`ParseFieldList<S extends string>`, "FieldListChunk<S> extends infer TChunk ? TChunk extends string ? ("
+                + "S extends `${TChunk}(${infer TRest}` ? ParseNestedFields<TChunk, ParseFieldList<TRest>> : S extends `${TChunk}${infer TRest}` ? [FieldPaths<TChunk>, TRest] : never"
+                + ") : never : never");
+            writer.typeAlias(`ParseNestedFields<TChunk extends string, TNested>`, "TNested extends [infer TSelection, `)${infer TRest}`] ? "
+                + "(TRest extends `,${infer TNext}` ? JoinFieldList<NestedFieldPaths<TChunk, TSelection>, ParseFieldList<TNext>> : [NestedFieldPaths<TChunk, TSelection>, TRest]) : never");
+            writer.typeAlias(`JoinFieldList<TSelection, TList>`, `TList extends [infer TNext, infer TRest] ? [TSelection & TNext, TRest] : never`);
+            writer.comment(`Comma separated paths preceding the first parenthesis`);
+            writer.typeAlias(`FieldListChunk<S extends string>`,
+                "S extends `${infer TChunk}(${string}` ? (TChunk extends `${infer TClosed})${string}` ? TClosed : TChunk) : S extends `${infer TChunk})${string}` ? TChunk : S");
+            // several paths are taken at once, depth of type instantiation is limited
+            writer.typeAlias(`FieldPaths<TChunk extends string>`, "TChunk extends `${infer T1},${infer T2},${infer T3},${infer T4},${infer TRest}` "
+                + "? FieldPath<T1> & FieldPath<T2> & FieldPath<T3> & FieldPath<T4> & FieldPaths<TRest> : TChunk extends `${infer TPath},${infer TRest}` ? FieldPath<TPath> & FieldPaths<TRest> : FieldPath<TChunk>");
+            writer.comment(`Comma separated paths preceding opening parenthesis, the last one selects nested fields`);
+            writer.typeAlias(`NestedFieldPaths<TChunk extends string, TNested>`,
+                "TChunk extends `${infer TPreceding},${LastFieldPath<TChunk>}` ? FieldPaths<TPreceding> & FieldPath<LastFieldPath<TChunk>, TNested> : FieldPath<TChunk, TNested>");
+            writer.typeAlias(`LastFieldPath<TChunk extends string>`, "TChunk extends `${string},${infer TRest}` ? LastFieldPath<TRest> : TChunk");
+            writer.comment(`Path of nested property separated by slashes (e.g. "items/id")`);
+            writer.typeAlias(`FieldPath<TPath extends string, TSelection = true>`,
+                "TPath extends `${infer TName}/${infer TRest}` ? { [P in TName]: FieldPath<TRest, TSelection> } : { [P in TPath]: TSelection }");
+            writer.endLine();
+        }
+    }
+
+    // writes schemas and resources of the API
+    private writeDefinitions(writer: TypescriptTextWriter, api: gapi.client.discovery.RestDescription) {
+        if (this.options.scopes) {
+            this.writeScopeTypes(writer, api);
+        }
+
+        // gapi.client.request is available for namespace target only
+        if (this.options.routes && this.options.target !== "module") {
+            this.writeRoutes(writer, api);
+        }
+
+        const declaredNames = getDeclaredTypeNames(api, this.options);
+
+        forEachOrdered(api.schemas, (schema, key) => {
+            checkExists(schema.id);
+            if (!isEmptySchema(schema)) {
+                const enumAliases = this.options.enumTypeAliases ? this.writeEnumAliases(writer, schema, declaredNames) : {};
+
+                writer.interface(schema.id, () => {
+                    forEachOrdered(schema.properties, (data, key) => {
+                        // enum values are already documented on the alias
+                        writer.comment(enumAliases[key] ? getComment({ description: data.description, deprecated: data.deprecated }) : getComment(data));
+                        writer.property(key, enumAliases[key] || getType(data, api.schemas, this.options.formatTypes, this.types), data.required || false);
+                    });
+
+                    if (schema.additionalProperties) {
+                        writer.indexSignature(getIndexSignatureType(schema, api.schemas, this.options.formatTypes, this.types));
+                    }
+                });
+
+                this.plugins.forEach(plugin => plugin.onSchema && plugin.onSchema({ api, writer, name: key, schema }));
+            }
+        });
+
+        this.writeResources(writer, api.resources, api.parameters, api.schemas, api);
+    }
+
+    // writes union of OAuth scopes and interface mapping method ids to scopes which authorize them
+    private writeScopeTypes(writer: TypescriptTextWriter, api: gapi.client.discovery.RestDescription) {
+        checkExists(api.name, 'api', 'name');
+
+        const scopes = _.keys(api.auth && api.auth.oauth2 && api.auth.oauth2.scopes);
+        const methods = getMethods(api);
+
+        writer.comment(`OAuth 2.0 scopes of ${api.title} ${api.version}`);
+        writer.typeAlias(getScopeTypeName(api.name), scopes.length ? scopes.map(scope => JSON.stringify(scope)).join(" | ") : "never");
+        writer.comment(`OAuth 2.0 scopes by method id, any of them authorizes the method`);
+        writer.interface(getMethodScopesTypeName(api.name), () => {
+            forEachOrdered(methods, (method, id) => {
+                writer.property(id, method.scopes && method.scopes.length ? method.scopes.map(scope => JSON.stringify(scope)).join(" | ") : "never");
+            });
+        });
+    }
+
+    // writes interface describing query parameters, body and response of methods by "<HTTP method> <flat path>"
+    private writeRoutes(writer: TypescriptTextWriter, api: gapi.client.discovery.RestDescription) {
+        checkExists(api.name, 'api', 'name');
+
+        const routes: Record<string, gapi.client.discovery.RestMethod> = {};
+
+        forEachOrdered(getMethods(api), (method, id) => {
+            const route = `${method.httpMethod || "GET"} ${method.flatPath || method.path}`;
+
+            if (routes[route]) {
+                this.logger.warn(`Skipping route of ${id}, ${route} is already defined by ${routes[route].id}`);
+            } else {
+                routes[route] = method;
+            }
+        });
+
+        writer.comment(`Methods of ${api.title} ${api.version} by HTTP method and path, e.g. gapi.client.request<${getRoutesTypeName(api.name)}, "GET v1/resources/{resourcesId}">()`);
+        writer.interface(getRoutesTypeName(api.name), () => {
+            _.forEach(routes, (method, route) => {
+                checkExists(method.id, 'method', 'id');
+                writer.comment(method.id);
+                writer.property(route, (writer: TypescriptTextWriter) => {
+                    writer.anonymysType(() => {
+                        // path parameters are part of the path
+                        const query = _.omitBy({ ...api.parameters, ...method.parameters }, parameter => parameter.location === "path");
+
+                        writer.property("method", JSON.stringify(method.httpMethod || "GET"));
+                        writer.property("params", (writer: TypescriptTextWriter) => {
+                            writer.anonymysType(() => this.writeRequestParameters(writer, query, api.schemas));
+                        });
+                        writer.property("body", this.getRouteBodyType(api, method));
+                        writer.property("response", `${getResponseType(method, api.schemas)}`);
+                    });
+                });
+            });
+        });
+    }
+
+    private getRouteBodyType(api: gapi.client.discovery.RestDescription, method: gapi.client.discovery.RestMethod) {
+        const schemaName = method.request && method.request.$ref;
+
+        if (!schemaName) {
+            return "undefined";
+        }
+
+        checkExists(api.schemas);
+        checkExists(method.id, 'method', 'id');
+
+        const schema = api.schemas[schemaName];
+
+        if (!schema || isEmptySchema(schema)) {
+            return "any";
+        }
+
+        return (this.options.requestBodyTypes && getRequestBodyType(schemaName, schema, method.id)) || schemaName;
+    }
+
+    // loads discovery document from url or local file
+    private request<T = gapi.client.discovery.DirectoryList>(url: string): Promise<T> {
+        if (!isRemoteUrl(url)) {
+            return this.readFile<T>(url.replace(/^file:\/\//i, ""));
+        }
+
+        if (this.cache) {
+            return this.cache.request<T>(url);
+        }
+
+        return download(url, this.logger).then(response => JSON.parse(response.body) as T);
+    }
+
+    private readFile<T>(filename: string): Promise<T> {
+        return new Promise((resolve, reject) => {
+            fs.readFile(filename, "utf-8", (error, body) => {
+                if (!error) {
+                    try {
+                        resolve(JSON.parse(body) as T);
+                    } catch (e) {
+                        reject(new Error(`Invalid JSON in ${filename}: ${e.message}`));
                     }
+                }
+                else {
+                    this.logger.error("Can't read file: ", error);
+                    reject(error);
+                }
+            });
+        });
+    }
+
+    public writeTemplate(filepath: string, template: (data: any) => string, api: gapi.client.discovery.RestDescription) {
+        var writer = new StringWriter(text => this.writeFile(filepath, text));
+
+        try {
+            writer.write(template({ ...api, formatPropertyName }));
+        }
+        finally {
+            writer.end();
+        }
+    }
+
+    public writeReadme(api: gapi.client.discovery.RestDescription) {
+        checkExists(api.name);
+        checkExists(api.version);
+        var destinationDirectory = this.getTypingsDirectory(api.name, api.version),
+            writer = new StringWriter(text => this.writeFile(destinationDirectory + "/readme.md", text));
+
+        try {
+            writer.write(this.templates["readme.md"](api));
+        }
+        finally {
+            writer.end();
+        }
+    }
+
+    // processes service definition from url or local file, sourceUrl is written to the header of generated typings
+    public async processService(url: string, actualVersion: boolean, sourceUrl = url): Promise<ServiceResult> {
+        const started = Date.now();
+
+        try {
+            const result = await this.generateService(url, actualVersion, sourceUrl);
+            return { url: sourceUrl, ...result, elapsed: Date.now() - started };
+        } catch (e) {
+            this.logger.error(`Could not process service ${sourceUrl}: ${e && e.message || e}`);
+            return { url: sourceUrl, status: "failed", error: String(e && e.message || e), elapsed: Date.now() - started };
+        }
+    }
+
+    private async generateService(url: string, actualVersion: boolean, sourceUrl: string): Promise<Pick<ServiceResult, "id" | "status" | "error" | "diagnostics">> {
+        const api = await this.request<gapi.client.discovery.RestDescription>(url);
+
+        // name and version identify the typings directory
+        checkExists(api.name, 'discovery document', 'name');
+        checkExists(api.version, 'discovery document', 'version');
+        api.name = api.name.toLocaleLowerCase();
+        api.version = api.version.toLocaleLowerCase();
+        // interface of root resources, request bodies and paginations are declared next to schemas
+        sanitizeNames(api, [...getHelperTypeNames(this.options), getModuleApiName(api.name), ...getMethodTypeNames(api.resources, api, this.options)]);
+        sortApi(api);
+
+        var destinationDirectory = this.getTypingsDirectory(api.name, actualVersion ? null : api.version);
+
+        if (this.cache && isRemoteUrl(url) && !this.cache.hasChanged(url) && !this.options.force && !this.options.check && fs.existsSync(destinationDirectory)) {
+            this.logger.log(`Skipping ${api.id}, revision ${api.revision} has not changed`);
+            return { id: api.id, status: "skipped" };
+        }
+
+        const output: ServiceOutput = { directory: path.resolve(destinationDirectory), files: {}, contents: {}, outdated: [] };
+        this.outputs.set(output.directory, output);
+
+        try {
+            await this.writeService(destinationDirectory, api, actualVersion, sourceUrl);
+        } finally {
+            this.outputs.delete(output.directory);
+        }
+
+        // files of previous generation which are not generated anymore are outdated in check mode and removed otherwise
+        const previousManifest = readManifest(destinationDirectory);
+        const staleFiles = previousManifest ? _.keys(previousManifest.files).filter(file => !output.files.hasOwnProperty(file)).sort() : [];
+
+        for (const file of staleFiles.filter(file => fs.existsSync(path.join(destinationDirectory, file)))) {
+            if (this.options.check) {
+                output.outdated.push(file);
+            } else {
+                this.logger.log(`Removing ${path.join(destinationDirectory, file)}, it is not generated anymore`);
+                removeFile(destinationDirectory, file);
+            }
+        }
+
+        const manifest: OutputManifest = { id: api.id, revision: api.revision, files: sortKeys(output.files) };
+
+        if (!this.saveFile(path.join(destinationDirectory, manifestFileName), JSON.stringify(manifest, null, 2) + "\n")) {
+            output.outdated.push(manifestFileName);
+        }
+
+        // generated output is verified, files on disk are not written in check mode
+        const diagnostics = this.options.verify ? verifyTypings(destinationDirectory, output.contents) : undefined;
+
+        if (output.outdated.length) {
+            return { id: api.id, status: "outdated", error: `out of date: ${output.outdated.join(", ")}`, diagnostics };
+        }
+
+        if (diagnostics && diagnostics.length && this.options.verify === "fail") {
+            return { id: api.id, status: "failed", error: `${diagnostics.length} compilation error(s)`, diagnostics };
+        }
+
+        return { id: api.id, status: "generated", diagnostics };
+    }
+
+    private async writeService(destinationDirectory: string, api: gapi.client.discovery.RestDescription, actualVersion: boolean, sourceUrl: string) {
+        await this.processApi(destinationDirectory, api, actualVersion, sourceUrl);
+
+        if (this.options.validators) {
+            this.writeValidators(destinationDirectory, api, sourceUrl);
+        }
+
+        if (this.options.scopes) {
+            this.writeScopes(destinationDirectory, api, sourceUrl);
+        }
+
+        if (this.options.partialResponses) {
+            this.writeFields(destinationDirectory, api, sourceUrl);
+        }
+
+        if (this.options.jsonSchema) {
+            this.writeJsonSchemas(path.join(destinationDirectory, "json-schema"), api, this.options.jsonSchema);
+        }
+
+        if (this.options.target === "module") {
+            if (this.options.client) {
+                this.writeClient(destinationDirectory, api, sourceUrl);
+            }
+        } else {
+            // readme, tsconfig and tests are written for gapi.client packages only
+            const templateData = { ...api, actualVersion };
+
+            _.forEach(this.templates, (template, filename) => {
+                this.writeTemplate(path.join(destinationDirectory, filename), template, templateData);
+            });
+            // this.writeTemplate(path.join(destinationDirectory, `gapi.client.${api.name}-tests.ts`), testsTpl, templateData);
+
+            this.writeTests(destinationDirectory, api, actualVersion, sourceUrl);
+        }
+
+        for (const plugin of this.plugins) {
+            if (plugin.emit) {
+                await plugin.emit({
+                    api,
+                    url: sourceUrl,
+                    destinationDirectory,
+                    options: this.options,
+                    createWriter: (filename: string) => this.createWriter(path.join(destinationDirectory, filename)),
+                });
+            }
+        }
+    }
+
+    // file is written when the writer is closed
+    private createWriter(filename: string) {
+        return new TypescriptTextWriter(new IndentedTextWriter(new StringWriter(text => this.writeFile(filename, text))), this.options.maxCommentLine);
+    }
+
+    // writes output file and records its hash in manifest of the service which owns the directory
+    private writeFile(filename: string, content: string) {
+        let directory = path.dirname(path.resolve(filename));
+
+        // nested directories of other versions have their own outputs
+        while (!this.outputs.has(directory) && path.dirname(directory) !== directory) {
+            directory = path.dirname(directory);
+        }
+
+        const output = this.outputs.get(directory);
+        const relativePath = output ? path.relative(output.directory, path.resolve(filename)).split(path.sep).join("/") : filename;
+
+        if (output) {
+            output.files[relativePath] = crypto.createHash("sha256").update(content).digest("hex");
+            output.contents[relativePath] = content;
+        }
+
+        if (!this.saveFile(filename, content) && output) {
+            output.outdated.push(relativePath);
+        }
+    }
+
+    // files with unchanged content are not rewritten, in check mode files are only compared, returns false if the file differs
+    private saveFile(filename: string, content: string) {
+        if (fs.existsSync(filename) && fs.readFileSync(filename, "utf-8") === content) {
+            return true;
+        }
+
+        if (!this.options.check) {
+            ensureDirectoryExists(path.dirname(filename));
+            fs.writeFileSync(filename, content);
+        }
+
+        return !this.options.check;
+    }
+
+    // writes runtime client implementing API interface of module typings on top of pluggable transport
+    private writeClient(destinationDirectory: string, api: gapi.client.discovery.RestDescription, url: string) {
+        checkExists(api.name, 'api', 'name');
+
+        const writer = this.createWriter(path.join(destinationDirectory, "client.ts")),
+            baseUrl = api.rootUrl ? api.rootUrl + (api.servicePath || "") : api.baseUrl,
+            uploads = emitsMediaUploads(this.options) && _.some(getMethods(api), method => method.supportsMediaUpload && method.mediaUpload);
+
+        writer.write(`// Runtime client for ${api.ownerName} ${api.title} ${api.version}
+// IMPORTANT
+// This file was generated by https://github.com/declanvong/google-api-typings-generator. Please do not edit it manually.
+// In case of any problems please post issue to https://github.com/declanvong/google-api-typings-generator
+// Generated from: ${url}
+
+import * as types from "./index";
+
+/** HTTP request prepared by the client */
+export interface HttpRequest {
+    /** HTTP method, e.g. GET */
+    method: string;
+    /** Absolute URL including query string */
+    url: string;
+    /** HTTP headers */
+    headers: Record<string, string>;
+    /** JSON serialized request body */
+    body?: string;${uploads ? `
+    /** Media content of upload request, the transport sends it according to uploadType query parameter */
+    media?: types.MediaContent;` : ""}
+}
+
+/**
+ * Sends HTTP requests (e.g. using fetch) and resolves with JSON-parsed response body.
+ * Authentication headers are expected to be added by the transport.
+ */
+export interface Transport {
+    request<T>(request: HttpRequest): Promise<T>;
+}
+
+/** Default base URL of the API */
+export const baseUrl = ${JSON.stringify(baseUrl || "")};
+${uploads ? `
+/** Default root URL of upload paths */
+export const rootUrl = ${JSON.stringify(api.rootUrl || baseUrl || "")};
+` : ""}
+// expands {name} and {+name} (reserved expansion, keeps slashes) URI template expressions
+function expandPath(template: string, params: Record<string, unknown>) {
+    return template.replace(/\\{(\\+?)([^}]+)\\}/g, (match: string, reserved: string, name: string) => {
+        const value = String(params[name]);
+        return reserved ? encodeURI(value) : encodeURIComponent(value);
+    });
+}
+
+function buildQuery(params: Record<string, unknown>, pathParameters: string[]) {
+    const query: string[] = [];
+
+    for (const name of Object.keys(params)) {
+        const value = params[name];
+
+        if (value === undefined || pathParameters.indexOf(name) >= 0) {
+            continue;
+        }
+
+        for (const item of Array.isArray(value) ? value : [value]) {
+            query.push(\`\${encodeURIComponent(name)}=\${encodeURIComponent(String(item))}\`);
+        }
+    }
+
+    return query.length ? "?" + query.join("&") : "";
+}
+
+function send<T>(transport: Transport, base: string, method: string, path: string, pathParameters: string[], request: object, body?: unknown): Promise<T> {
+${uploads ? `    // media content is passed to the transport, it is not a query parameter
+    const { media, ...params } = request as { media?: types.MediaContent, [name: string]: unknown };
+` : `    const params = request as Record<string, unknown>;
+`}
+    return transport.request<T>({
+        method,
+        url: base + expandPath(path, params) + buildQuery(params, pathParameters),
+        headers: body === undefined ? {} : { "Content-Type": "application/json" },
+        body: body === undefined ? undefined : JSON.stringify(body),${uploads ? `
+        media,` : ""}
+    });
+}
+`);
+
+        writer.writeLine();
+        writer.comment(`Creates ${api.title} ${api.version} client which sends requests through the transport`);
+        writer.beginLine(`export function createClient(transport: Transport, base = baseUrl${uploads ? ", root = rootUrl" : ""}): types.${getModuleApiName(api.name)} `);
+        writer.scope(() => {
+            this.writeClientOverloads(writer, api.resources, api);
+            writer.beginNewLine(`return `);
+            this.writeClientResource(writer, { resources: api.resources }, api);
+            writer.write(`;`);
+        });
+        writer.endLine();
+        writer.end();
+    }
+
+    // signatures of client methods, overloaded methods are implemented by functions
+    private getClientSignatures(resourceName: string, resource: gapi.client.discovery.RestResource, api: gapi.client.discovery.RestDescription) {
+        const requestBodyTypes = this.options.requestBodyTypes
+            ? _.mapValues(getRequestBodyTypes(resourceName, resource, api.schemas), bodyType => bodyType.typeName)
+            : {};
+
+        return _.mapValues(resource.methods, (method, name) =>
+            this.getMethodSignatures(resourceName, method, name, api.parameters || {}, api.schemas, api, requestBodyTypes, "types."));
+    }
+
+    // writes functions implementing overloaded methods of the resources, e.g. function booksBooksInsert(...)
+    private writeClientOverloads(writer: TypescriptTextWriter, resources: Record<string, gapi.client.discovery.RestResource> | undefined, api: gapi.client.discovery.RestDescription) {
+        forEachOrdered(resources, (resource, resourceName) => {
+            const signatures = this.getClientSignatures(resourceName, resource, api);
+
+            forEachOrdered(resource.methods, (method, name) => {
+                checkExists(method.id, 'method', 'id');
+
+                if (signatures[name].length < 2) {
+                    return;
+                }
+
+                const functionName = _.camelCase(method.id);
+                const regular = _.last(signatures[name])!;
+                const upload = emitsMediaUploads(this.options) && method.supportsMediaUpload && method.mediaUpload;
+                const uploadPath = upload && method.mediaUpload!.protocols && (method.mediaUpload!.protocols.simple || method.mediaUpload!.protocols.resumable || {}).path;
+
+                writer.endLine();
+
+                for (const signature of signatures[name]) {
+                    writer.method(`function ${functionName}${signature.typeParameters}`, signature.parameters, signature.returnType, true);
+                }
+
+                // implementation accepts parameters of all overloads, media content is sent to upload path
+                const [request, ...body] = regular.parameters;
+                const parameters = [
+                    { parameter: request.parameter, type: upload ? `${request.type} & { media?: types.MediaContent }` : request.type },
+                    ...body.map(parameter => upload ? { ...parameter, parameter: parameter.parameter + "?" } : parameter),
+                ];
+
+                writer.beginLine(`function ${functionName}(${parameters.map(parameter => `${parameter.parameter}: ${parameter.type}`).join(", ")}): Promise<unknown> `);
+                writer.scope(() => {
+                    writer.beginNewLine(`return `);
+                    this.writeClientSend(writer, method, uploadPath ? `request.media ? root : base` : "base",
+                        uploadPath ? `request.media ? ${JSON.stringify(uploadPath.replace(/^\//, ""))} : ` : "");
+                    writer.write(`;`);
                 });
+                writer.endLine();
+            });
+
+            this.writeClientOverloads(writer, resource.resources, api);
+        });
+    }
+
+    private writeClientSend(writer: TypescriptTextWriter, method: gapi.client.discovery.RestMethod, base: string, pathPrefix = "") {
+        const path = method.path || method.flatPath;
+        checkExists(path, 'method', 'path');
+
+        // parameters are placed according to their location, everything which is not in path goes to query
+        const pathParameters = _.keys(_.pickBy(method.parameters, parameter => parameter.location === "path")).sort();
+        const args = method.request ? "request, body" : "request";
+
+        writer.write(`send(transport, ${base}, ${JSON.stringify(method.httpMethod || "GET")}, ${pathPrefix}${JSON.stringify(path)}, ${JSON.stringify(pathParameters)}, ${args})`);
+    }
+
+    private writeClientResource(writer: TypescriptTextWriter, resource: gapi.client.discovery.RestResource, api: gapi.client.discovery.RestDescription, resourceName = "") {
+        const signatures = this.getClientSignatures(resourceName, resource, api);
+
+        writer.scope(() => {
+            forEachOrdered(resource.methods, (method, name) => {
+                checkExists(method.id, 'method', 'id');
+
+                if (signatures[name].length > 1) {
+                    writer.beginNewLine(`${formatPropertyName(getName(method.id))}: ${_.camelCase(method.id)},`);
+                    return;
+                }
+
+                writer.beginNewLine(`${formatPropertyName(getName(method.id))}: (${method.request ? "request, body" : "request"}) => `);
+                this.writeClientSend(writer, method, "base");
+                writer.write(`,`);
+            });
+
+            forEachOrdered(resource.resources, (childResource, childResourceName) => {
+                writer.beginNewLine(`${formatPropertyName(childResourceName)}: `);
+                this.writeClientResource(writer, childResource, api, childResourceName);
+                writer.write(`,`);
+            });
+        });
+    }
+
+    // writes fields() builder formatting typed selection of response properties as value of fields parameter
+    private writeFields(destinationDirectory: string, api: gapi.client.discovery.RestDescription, url: string) {
+        checkExists(api.name, 'api', 'name');
+
+        const isModule = this.options.target === "module",
+            typesNamespace = isModule ? "types" : `gapi.client.${api.name}`,
+            writer = this.createWriter(path.join(destinationDirectory, "fields.ts"));
+
+        writer.write(`// Fields parameter builder of ${api.ownerName} ${api.title} ${api.version}
+// IMPORTANT
+// This file was generated by https://github.com/declanvong/google-api-typings-generator. Please do not edit it manually.
+// In case of any problems please post issue to https://github.com/declanvong/google-api-typings-generator
+// Generated from: ${url}
+
+${isModule ? `import * as types from "./index";` : `/// <reference path="index.d.ts" />`}
+
+export interface FieldSelector {
+    [name: string]: true | FieldSelector;
+}
+
+function formatFields(selection: Record<string, unknown>): string {
+    return Object.keys(selection)
+        .map(name => selection[name] === true ? name : \`\${name}(\${formatFields(selection[name] as Record<string, unknown>)})\`)
+        .join(",");
+}
+
+/** Formats selection of response properties as value of fields parameter, e.g. { items: { id: true }, nextPageToken: true } as "items(id),nextPageToken" */
+export function fields<TSelection extends FieldSelector>(selection: TSelection): ${typesNamespace}.Fields<TSelection> {
+    return formatFields(selection);
+}
+`);
+        writer.end();
+    }
+
+    // writes scope descriptions and scopes of methods as constants, with helper selecting scopes for set of methods
+    private writeScopes(destinationDirectory: string, api: gapi.client.discovery.RestDescription, url: string) {
+        checkExists(api.name, 'api', 'name');
+
+        const isModule = this.options.target === "module",
+            typesNamespace = isModule ? "types" : `gapi.client.${api.name}`,
+            scopeType = `${typesNamespace}.${getScopeTypeName(api.name)}`,
+            methodScopesType = `${typesNamespace}.${getMethodScopesTypeName(api.name)}`,
+            writer = this.createWriter(path.join(destinationDirectory, "scopes.ts"));
+
+        writer.write(`// OAuth 2.0 scopes of ${api.ownerName} ${api.title} ${api.version}
+// IMPORTANT
+// This file was generated by https://github.com/declanvong/google-api-typings-generator. Please do not edit it manually.
+// In case of any problems please post issue to https://github.com/declanvong/google-api-typings-generator
+// Generated from: ${url}
+
+${isModule ? `import * as types from "./index";` : `/// <reference path="index.d.ts" />`}
+
+export type Scope = ${scopeType};
+
+export type MethodId = keyof ${methodScopesType};
+`);
+
+        writer.writeLine();
+        writer.comment(`Descriptions of OAuth 2.0 scopes`);
+        writer.beginLine(`export const scopes: { readonly [scope in Scope]: string } = `);
+        writer.scope(() => {
+            forEachOrdered(api.auth && api.auth.oauth2 && api.auth.oauth2.scopes, (scope, name) => {
+                writer.beginNewLine(`${JSON.stringify(name)}: ${JSON.stringify(scope.description || "")},`);
+            });
+        });
+        writer.endLine(`;`);
+        writer.writeLine();
+        writer.comment(`OAuth 2.0 scopes by method id, any of them authorizes the method`);
+        writer.beginLine(`export const methodScopes: { readonly [id in MethodId]: ReadonlyArray<${methodScopesType}[id]> } = `);
+        writer.scope(() => {
+            forEachOrdered(getMethods(api), (method, id) => {
+                writer.beginNewLine(`${JSON.stringify(id)}: ${JSON.stringify(method.scopes || [])},`);
+            });
+        });
+        writer.endLine(`;`);
+        writer.write(`
+/**
+ * Returns small set of scopes authorizing all methods, scopes accepted by most of the remaining methods are selected first.
+ * Methods which do not require authorization are ignored.
+ */
+export function getRequiredScopes(methods: MethodId[]): Scope[] {
+    const selected: Scope[] = [];
+    let remaining = methods.map(method => methodScopes[method] as ReadonlyArray<Scope>).filter(accepted => accepted.length > 0);
+
+    while (remaining.length) {
+        const counts = new Map<Scope, number>();
+
+        for (const accepted of remaining) {
+            for (const scope of accepted) {
+                counts.set(scope, (counts.get(scope) || 0) + 1);
+            }
+        }
+
+        let best = remaining[0][0];
+
+        counts.forEach((count, scope) => {
+            if (count > (counts.get(best) || 0)) {
+                best = scope;
+            }
+        });
+
+        selected.push(best);
+        remaining = remaining.filter(accepted => accepted.indexOf(best) < 0);
+    }
+
+    return selected.sort();
+}
+`);
+        writer.end();
+    }
+
+    private writeJsonSchemas(destinationDirectory: string, api: gapi.client.discovery.RestDescription, draft: JsonSchemaDraft) {
+        _.forEach(convertSchemas(api, draft), (schema, name) => {
+            this.writeFile(path.join(destinationDirectory, `${name}.json`), JSON.stringify(schema, null, 2));
+        });
+    }
+
+    // writes validate<Schema>, is<Schema> and assert<Schema> functions for every schema of the API
+    private writeValidators(destinationDirectory: string, api: gapi.client.discovery.RestDescription, url: string) {
+        checkExists(api.name, 'api', 'name');
+
+        const isModule = this.options.target === "module",
+            typesNamespace = isModule ? "types" : `gapi.client.${api.name}`,
+            writer = this.createWriter(path.join(destinationDirectory, "validators.ts"));
+
+        writer.write(`// Runtime validators for ${api.ownerName} ${api.title} ${api.version}
+// IMPORTANT
+// This file was generated by https://github.com/declanvong/google-api-typings-generator. Please do not edit it manually.
+// In case of any problems please post issue to https://github.com/declanvong/google-api-typings-generator
+// Generated from: ${url}
+
+${isModule ? `import * as types from "./index";` : `/// <reference path="index.d.ts" />`}
+
+/** Returns description of the first mismatch or undefined if value is valid */
+export type Validator = (value: unknown, path: string) => string | undefined;
+
+function describe(value: unknown) {
+    return value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+}
 
-                this.writeResources(writer, api.resources, api.parameters, api.schemas);
+function checkType(type: string): Validator {
+    return (value, path) => typeof value === type ? undefined : \`\${path}: expected \${type}, got \${describe(value)}\`;
+}
 
-                forEachOrdered(api.resources, (resource, resourceName) => {
-                    if (resourceName !== "debugger") {
-                        writer.endLine();
-                        writer.writeLine(`const ${resourceName}: ${this.getResourceTypeName(resourceName)};`);
-                    }
-                });
-            });
+const checkAny: Validator = () => undefined;
 
-        });
+const checkString = checkType("string");
 
-        writer.end();
-    }
+const checkNumber = checkType("number");
 
-    private request(url: string): Promise<gapi.client.discovery.DirectoryList> {
-        return new Promise((resolve, reject) => {
-            request(url, (error, response, body) => {
-                if (!error && response.statusCode == 200) {
-                    var api = JSON.parse(body) as gapi.client.discovery.DirectoryList;
-                    resolve(api);
-                }
-                else {
-                    console.error("Got an error: ", error, ", status code: ", response.statusCode);
-                    reject(error);
-                }
-            });
-        });
-    }
+const checkBoolean = checkType("boolean");
 
-    public writeTemplate(filepath: string, template: (data: any) => string, api: gapi.client.discovery.RestDescription) {
-        var stream = fs.createWriteStream(filepath),
-            writer = new StreamWriter(stream);
+function checkEnum(values: string[]): Validator {
+    return (value, path) => values.indexOf(value as string) >= 0
+        ? undefined
+        : \`\${path}: expected one of \${values.join(", ")}, got \${JSON.stringify(value)}\`;
+}
 
-        try {
-            writer.write(template({ ...api, formatPropertyName }));
+function checkArray(item: Validator): Validator {
+    return (value, path) => {
+        if (!Array.isArray(value)) {
+            return \`\${path}: expected array, got \${describe(value)}\`;
         }
-        finally {
-            writer.end();
+
+        for (let i = 0; i < value.length; i++) {
+            const error = item(value[i], \`\${path}[\${i}]\`);
+            if (error) {
+                return error;
+            }
         }
-    }
 
-    public writeReadme(api: gapi.client.discovery.RestDescription) {
-        checkExists(api.name);
-        checkExists(api.version);
-        var destinationDirectory = this.getTypingsDirectory(api.name, api.version),
-            stream = fs.createWriteStream(destinationDirectory + "/readme.md"),
-            writer = new StreamWriter(stream);
+        return undefined;
+    };
+}
 
-        try {
-            writer.write(readmeTpl(api));
+function checkRecord(item: Validator): Validator {
+    return (value, path) => {
+        if (describe(value) !== "object") {
+            return \`\${path}: expected object, got \${describe(value)}\`;
         }
-        finally {
-            writer.end();
+
+        const record = value as Record<string, unknown>;
+
+        for (const key of Object.keys(record)) {
+            const error = item(record[key], \`\${path}[\${JSON.stringify(key)}]\`);
+            if (error) {
+                return error;
+            }
         }
-    }
 
-    public async processService(url: string, actualVersion: boolean) {
-        let api;
-        try {
-          api = await this.request(url) as gapi.client.discovery.RestDescription;
-        } catch (e) {
-          console.log('Could not process service ' + url);
-          return;
+        return undefined;
+    };
+}
+
+// properties are described as [required, validator] pairs
+function checkObject(properties: Record<string, [boolean, Validator]>, additionalProperties?: Validator): Validator {
+    return (value, path) => {
+        if (describe(value) !== "object") {
+            return \`\${path}: expected object, got \${describe(value)}\`;
         }
 
-        api.name = api.name.toLocaleLowerCase();
-        api.version = api.version.toLocaleLowerCase();
-        api.resources = sortKeys(api.resources);
+        const record = value as Record<string, unknown>;
+
+        for (const key of Object.keys(properties)) {
+            const [required, validate] = properties[key];
+
+            if (record[key] === undefined) {
+                if (required) {
+                    return \`\${path}.\${key}: required property is missing\`;
+                }
+                continue;
+            }
 
-        if (api.auth && api.auth.oauth2 && api.auth.oauth2.scopes) {
-            api.auth.oauth2.scopes = sortKeys(api.auth.oauth2.scopes);
+            const error = validate(record[key], \`\${path}.\${key}\`);
+            if (error) {
+                return error;
+            }
         }
 
-        _.forEach(api.resources, (resource) => {
-            resource.methods = sortKeys(resource.methods);
-        });
+        if (additionalProperties) {
+            for (const key of Object.keys(record)) {
+                const error = properties.hasOwnProperty(key) ? undefined : additionalProperties(record[key], \`\${path}.\${key}\`);
+                if (error) {
+                    return error;
+                }
+            }
+        }
 
-        var destinationDirectory = this.getTypingsDirectory(api.name, actualVersion ? null : api.version);
+        return undefined;
+    };
+}
+`);
+
+        forEachOrdered(api.schemas, (schema, key) => {
+            checkExists(schema.id);
+
+            if (isEmptySchema(schema)) {
+                return;
+            }
 
-        ensureDirectoryExists(destinationDirectory);
+            const type = `${typesNamespace}.${schema.id}`;
+
+            writer.writeLine();
+            // schemas are validated by named functions, so recursive references ($ref cycles) are resolved at runtime
+            writer.comment(`Validates value against ${schema.id} schema, returns description of the first mismatch`);
+            writer.beginLine(`export function validate${schema.id}(value: unknown, path = ${JSON.stringify(schema.id)}): string | undefined `);
+            writer.scope(() => {
+                writer.beginNewLine(`return `);
+                this.writeValidator(writer, api, schema);
+                writer.write(`(value, path);`);
+            });
+            writer.endLine();
+            writer.writeLine();
+            writer.comment(`Checks that value matches ${schema.id} schema`);
+            writer.beginLine(`export function is${schema.id}(value: unknown): value is ${type} `);
+            writer.scope(() => {
+                writer.beginNewLine(`return validate${schema.id}(value) === undefined;`);
+            });
+            writer.endLine();
+            writer.writeLine();
+            writer.comment(`Throws TypeError describing the first mismatch if value does not match ${schema.id} schema`);
+            writer.beginLine(`export function assert${schema.id}(value: unknown): asserts value is ${type} `);
+            writer.scope(() => {
+                writer.beginNewLine(`const error = validate${schema.id}(value);`);
+                writer.beginNewLine(`if (error) `);
+                writer.scope(() => {
+                    writer.beginNewLine(`throw new TypeError(error);`);
+                });
+            });
+            writer.endLine();
+        });
 
-        await this.processApi(destinationDirectory, api, actualVersion, url);
+        writer.end();
+    }
 
-        const templateData = { ...api, actualVersion };
+    // writes validator expression for the schema
+    private writeValidator(writer: TypescriptTextWriter, api: gapi.client.discovery.RestDescription, schema: gapi.client.discovery.JsonSchema) {
+        if (schema.$ref) {
+            checkExists(api.schemas);
+            const referencedSchema = api.schemas[schema.$ref];
+            writer.write(referencedSchema && !isEmptySchema(referencedSchema) ? `validate${schema.$ref}` : `checkAny`);
+        } else if (schema.type === "array") {
+            checkExists(schema.items, 'array', 'items');
+            writer.write(`checkArray(`);
+            this.writeValidator(writer, api, schema.items);
+            writer.write(`)`);
+        } else if (schema.type === "object" && schema.properties) {
+            writer.write(`checkObject(`);
+            writer.scope(() => {
+                forEachOrdered(schema.properties, (property, name) => {
+                    writer.beginNewLine(`${JSON.stringify(name)}: [${property.required || false}, `);
+                    this.writeValidator(writer, api, property);
+                    writer.write(`],`);
+                });
+            });
 
-        this.writeTemplate(path.join(destinationDirectory, 'readme.md'), readmeTpl, templateData);
-        this.writeTemplate(path.join(destinationDirectory, `tsconfig.json`), tsconfigTpl, templateData);
-        this.writeTemplate(path.join(destinationDirectory, `tslint.json`), tslintTpl, templateData);
-        // this.writeTemplate(path.join(destinationDirectory, `gapi.client.${api.name}-tests.ts`), testsTpl, templateData);
+            if (schema.additionalProperties) {
+                writer.write(`, `);
+                this.writeValidator(writer, api, schema.additionalProperties);
+            }
 
-        this.writeTests(destinationDirectory, api, actualVersion, url);
+            writer.write(`)`);
+        } else if (schema.type === "object" && schema.additionalProperties) {
+            writer.write(`checkRecord(`);
+            this.writeValidator(writer, api, schema.additionalProperties);
+            writer.write(`)`);
+        } else if (isEnum(schema)) {
+            writer.write(`checkEnum(${JSON.stringify(schema.enum)})`);
+        } else {
+            switch (schema.type) {
+                case "string":
+                    writer.write(`checkString`);
+                    break;
+                case "integer":
+                case "number":
+                    writer.write(`checkNumber`);
+                    break;
+                case "boolean":
+                    writer.write(`checkBoolean`);
+                    break;
+                default:
+                    writer.write(`checkAny`);
+            }
+        }
     }
 
     private writePropertyValue(scope: TypescriptTextWriter, api: gapi.client.discovery.RestDescription, property: gapi.client.discovery.JsonSchema) {
@@ -776,7 +2948,13 @@ export class App {
                 scope.write(`true`);
                 break;
             case "string":
-                scope.write(`"Test string"`);
+                if (isEnum(property)) {
+                    scope.write(JSON.stringify(property.enum[0]));
+                } else if (property.format && formatSamples[property.format]) {
+                    scope.write(JSON.stringify(formatSamples[property.format]));
+                } else {
+                    scope.write(`"Test string"`);
+                }
                 break;
             case "array":
                 checkExists(property.items, 'array', 'items');
@@ -839,7 +3017,7 @@ export class App {
     }
 
     // Performs a lookup of the specified interface/schema type and recursively generates stubbed values
-    private writeSchemaRef(scope: TypescriptTextWriter, api: gapi.client.discovery.RestDescription, schemaName: string) {
+    private writeSchemaRef(scope: TypescriptTextWriter, api: gapi.client.discovery.RestDescription, schemaName: string, omit: string[] = []) {
         if (this.seenSchemaRefs.has(schemaName)) {
           // Break out of recursive reference by writing undefined
           scope.write(`undefined`);
@@ -853,7 +3031,7 @@ export class App {
         }
 
         this.seenSchemaRefs.add(schemaName);
-        this.writeObject(scope, api, schema);
+        this.writeObject(scope, api, omit.length ? { ...schema, properties: _.omit(schema.properties, omit) } : schema);
         this.seenSchemaRefs.delete(schemaName);
     }
 
@@ -871,34 +3049,79 @@ export class App {
         });
     }
 
+    private writeMethodCall(scope: TypescriptTextWriter, api: gapi.client.discovery.RestDescription, access: string, method: gapi.client.discovery.RestMethod) {
+        scope.write(`${access}(`);
+        const params = method.parameters;
+        const ref = method.request?.$ref;
+        if (params) {
+            scope.scope(() => {
+                this.writeProperties(scope, api, params);
+            });
+        } else {
+            // request is required even if the method has no parameters
+            scope.write(`{}`);
+        }
+        if (ref != null) {
+            // output only properties are not part of request body types
+            const omit = this.options.requestBodyTypes && api.schemas && api.schemas[ref]
+                ? getRequestBodyProperties(api.schemas[ref], method.id || '').outputOnly
+                : [];
+            scope.write(`, `);
+            this.writeSchemaRef(scope, api, ref, omit);
+        }
+
+        scope.write(`)`);
+    }
+
+    // batches first methods of the API, responses are typed by method id
+    private writeBatchTests(scope: TypescriptTextWriter, api: gapi.client.discovery.RestDescription) {
+        const methods: Array<{ access: string, method: gapi.client.discovery.RestMethod }> = [];
+        const collect = (access: string, resource: gapi.client.discovery.RestResource) => {
+            _.forEach(resource.methods, (method, methodName) => methods.push({ access: `${access}${formatPropertyAccess(methodName)}`, method }));
+            _.forEach(resource.resources, (subResource, subResourceName) => collect(`${access}${formatPropertyAccess(subResourceName)}`, subResource));
+        };
+
+        _.forEach(api.resources, (resource, resourceName) => collect(`gapi.client.${api.name}${formatPropertyAccess(resourceName)}`, resource));
+
+        const batched = methods.filter(({ method }) => method.id).slice(0, 2);
+
+        if (batched.length === 0) {
+            return;
+        }
+
+        scope.endLine();
+        scope.comment(`requests of different methods can be batched, responses are typed by id`);
+        scope.writeLine(`const batch: gapi.client.TypedBatch = gapi.client.newBatch();`);
+
+        for (const { access, method } of batched) {
+            scope.beginLine(`batch.add(`);
+            this.writeMethodCall(scope, api, access, method);
+            scope.endLine(`, { id: ${JSON.stringify(method.id)} });`);
+        }
+
+        scope.writeLine(`const { result } = await batch;`);
+
+        for (const { method } of batched) {
+            scope.writeLine(`result[${JSON.stringify(method.id)}].result;`);
+        }
+    }
+
     private writeResourceTests(scope: TypescriptTextWriter, api: gapi.client.discovery.RestDescription, ancestors: string, resourceName: string, resource: gapi.client.discovery.RestResource) {
         for (const methodName in resource.methods) {
             scope.endLine();
             scope.comment(resource.methods[methodName].description);
-            scope.beginLine(`await ${ancestors}.${resourceName}.${methodName}(`);
-            const params = resource.methods![methodName].parameters;
-            if (params) {
-                scope.scope(() => {
-                    this.writeProperties(scope, api, params);
-                });
-            }
-            const ref = resource.methods[methodName].request?.$ref;
-            if (ref != null) {
-                scope.write(`, `);
-                this.writeSchemaRef(scope, api, ref);
-            }
-
-            scope.write(`);`);
+            scope.beginLine(`await `);
+            this.writeMethodCall(scope, api, `${ancestors}${formatPropertyAccess(resourceName)}${formatPropertyAccess(methodName)}`, resource.methods[methodName]);
+            scope.write(`;`);
 
             for (const subResource in resource.resources) {
-                this.writeResourceTests(scope, api, `${ancestors}.${resourceName}`, subResource, resource.resources[subResource]);
+                this.writeResourceTests(scope, api, `${ancestors}${formatPropertyAccess(resourceName)}`, subResource, resource.resources[subResource]);
             }
         }
     }
 
     private writeTests(destinationDirectory: string, api: gapi.client.discovery.RestDescription, actualVersion: boolean, url: string) {
-        const stream = fs.createWriteStream(path.join(destinationDirectory, `gapi.client.${api.name}-tests.ts`)),
-            writer = new TypescriptTextWriter(new IndentedTextWriter(new StreamWriter(stream)));
+        const writer = this.createWriter(path.join(destinationDirectory, `gapi.client.${api.name}-tests.ts`));
 
         writer.write(`/* This is stub file for gapi.client.${api.name} definition tests */
 /* IMPORTANT.
@@ -961,54 +3184,364 @@ export class App {
                 for (const resourceName in api.resources) {
                     this.writeResourceTests(scope, api, `gapi.client.${api.name}`, resourceName, api.resources[resourceName]);
                 }
+
+                this.writeBatchTests(scope, api);
             });
         });
         writer.endLine(");");
+        writer.end();
+    }
+
+    private getDiscoveryLocation(item: DirectoryItem) {
+        checkExists(item.discoveryRestUrl, 'directory item', 'discoveryRestUrl');
+
+        return this.options.discoveryDirectory
+            ? resolveDiscoveryLocation(this.options.discoveryDirectory, item)
+            : item.discoveryRestUrl;
     }
 
-    public async discover(service: string, allVersions: boolean = false) {
-        console.log("Discovering Google services...");
+    // generates typings of all (or specified) services, services are processed concurrently up to options.concurrency
+    public async discover(service?: string, allVersions: boolean = false): Promise<GenerationSummary> {
+        this.logger.log("Discovering Google services...");
+
+        const started = Date.now();
 
-        const list: gapi.client.discovery.DirectoryList = await this.request("https://www.googleapis.com/discovery/v1/apis");
+        const discoveryDirectory = this.options.discoveryDirectory;
 
-        const apis = _.filter(list.items, api => service == null || api.name === service)
-            .filter(api => excludedApi.indexOf(api.name) < 0);
+        const list = await this.request(discoveryDirectory ? path.join(discoveryDirectory, directoryFileName) : discoveryUrl);
 
+        // all services are needed to find orphaned directories, even if only one of them is generated
+        const tasks = this.getTasks(selectApis(list, undefined, this.options), allVersions);
+        const selectedTasks = tasks.filter(task => service == null || task.api.name === service);
 
-        if (apis.length === 0) {
-            console.error("Can't find services");
+        if (selectedTasks.length === 0) {
+            this.logger.error("Can't find services");
             throw Error("Can't find services");
         }
 
+        const results = await mapConcurrently(selectedTasks, this.options.concurrency || 1, ({ api, actualVersion }) =>
+            this.processService(this.getDiscoveryLocation(api), actualVersion, api.discoveryRestUrl));
+
+        const orphaned = this.options.prune
+            ? this.prune(tasks.map(({ api, actualVersion }) =>
+                this.getTypingsDirectory((api.name || "").toLocaleLowerCase(), actualVersion ? null : (api.version || "").toLocaleLowerCase())))
+            : undefined;
+
+        return { results, orphaned, elapsed: Date.now() - started };
+    }
+
+    // selects preferred (and other when allVersions is set) or pinned versions of every API
+    private getTasks(apis: DirectoryItem[], allVersions: boolean) {
         const apisLookup = _.groupBy(apis, item => item.name);
 
+        const tasks: { api: DirectoryItem, actualVersion: boolean }[] = [];
+
         for (const apiKey in apisLookup) {
 
             const associatedApis = apisLookup[apiKey];
 
-            const preferedApi = associatedApis.find(x => x.preferred)
-                || associatedApis.sort((a, b) => a.version > b.version ? 1 : - 1)[0];
+            const pinnedVersions = this.options.versions && this.options.versions[apiKey];
+
+            if (pinnedVersions) {
+                // the first pinned version is written as actual version
+                _.castArray(pinnedVersions).forEach((version, index) => {
+                    const api = associatedApis.find(x => x.version === version);
+
+                    if (api) {
+                        tasks.push({ api, actualVersion: index === 0 });
+                    } else {
+                        this.logger.error(`Can't find version ${version} of ${apiKey}, available versions: ${associatedApis.map(x => x.version).join(", ")}`);
+                    }
+                });
+                continue;
+            }
+
+            const preferedApi = getPreferredApi(associatedApis);
 
             if (preferedApi) {
-                await this.processService(preferedApi.discoveryRestUrl, preferedApi.preferred);
+                tasks.push({ api: preferedApi, actualVersion: preferedApi.preferred || false });
             } else {
-                console.warn(`Can't find prefered API for ${apiKey}`);
+                this.logger.warn(`Can't find prefered API for ${apiKey}`);
             }
 
             if (allVersions) {
                 for (const api of associatedApis.filter(x => x != preferedApi)) {
-                    try {
-                        const service = await this.processService(api.discoveryRestUrl, api.preferred);
-                    } catch (e) {
-                        console.error(e);
+                    tasks.push({ api, actualVersion: api.preferred || false });
+                }
+            }
+        }
+
+        return tasks;
+    }
+
+    // removes typings directories which are not generated anymore (in check mode they are only reported), returns their paths
+    private prune(expectedDirectories: string[]) {
+        const expected = expectedDirectories.map(directory => path.resolve(directory));
+        const orphaned: string[] = [];
+
+        // generated directories contain index.d.ts, other directories (e.g. gapi.client typings) are kept
+        const isTypings = (directory: string) => fs.existsSync(path.join(directory, "index.d.ts"))
+            && (this.options.target === "module" || path.relative(this.typingsDirectory, directory).startsWith("gapi.client."));
+
+        const visit = (directory: string, depth: number) => {
+            for (const name of fs.readdirSync(directory).sort()) {
+                const child = path.resolve(directory, name);
+
+                if (!fs.statSync(child).isDirectory()) {
+                    continue;
+                }
+
+                if (expected.some(item => item === child || item.startsWith(child + path.sep))) {
+                    // versions of API are nested in directory of preferred version
+                    if (depth === 0) {
+                        visit(child, depth + 1);
                     }
+                } else if (isTypings(child)) {
+                    orphaned.push(path.relative(this.typingsDirectory, child));
                 }
             }
+        };
+
+        if (fs.existsSync(this.typingsDirectory)) {
+            visit(this.typingsDirectory, 0);
+        }
+
+        for (const directory of orphaned) {
+            this.logger.log(`${this.options.check ? "Orphaned" : "Removing"} ${directory}`);
+
+            if (!this.options.check) {
+                removeDirectory(path.join(this.typingsDirectory, directory));
+            }
+        }
+
+        return orphaned;
+    }
+}
+
+export interface ApiChange {
+    kind: "added" | "removed" | "changed";
+    target: "schema" | "property" | "method" | "parameter";
+    /** Schema or method id, followed by property or parameter path, e.g. "Book.author.displayName" */
+    path: string;
+    breaking: boolean;
+    description: string;
+    oldType?: string;
+    newType?: string;
+}
+
+export interface ApiDiff {
+    id?: string;
+    oldRevision?: string;
+    newRevision?: string;
+    breaking: boolean;
+    changes: ApiChange[];
+}
+
+// renders type of the schema as single line
+function renderType(type: gapi.client.discovery.JsonSchema, schemas: Record<string, gapi.client.discovery.JsonSchema> | undefined) {
+    const t = getType(type, schemas);
+
+    if (typeof t === "string") {
+        return t;
+    }
+
+    const buffer = new StringWriter();
+    const writer = new TypescriptTextWriter(new IndentedTextWriter(buffer, " ", ""));
+    t(writer);
+    return buffer.toString().replace(/\s+/g, " ").trim();
+}
+
+// format of the schema or of items of array, rendered type of schemas doesn't reflect it unless format types are used
+function getSchemaFormat(type: gapi.client.discovery.JsonSchema): string | undefined {
+    return type.type === "array" && type.items ? getSchemaFormat(type.items) : type.format;
+}
+
+function getMethods(api: gapi.client.discovery.RestDescription): Record<string, gapi.client.discovery.RestMethod> {
+    return _.keyBy(processResource(api), (method: gapi.client.discovery.RestMethod) => method.id);
+}
+
+// compares two revisions of API and reports changes of schemas, methods and their parameters
+export function diffApis(oldApi: gapi.client.discovery.RestDescription, newApi: gapi.client.discovery.RestDescription): ApiDiff {
+    const changes: ApiChange[] = [];
+
+    const add = (change: ApiChange) => changes.push(change);
+
+    const diffSchema = (
+            target: "property" | "parameter",
+            path: string,
+            oldType: gapi.client.discovery.JsonSchema,
+            newType: gapi.client.discovery.JsonSchema,
+    ) => {
+        if (oldType.properties && newType.properties) {
+            // compare inline objects property by property
+            diffProperties(target, path, oldType.properties, newType.properties);
+        } else {
+            const oldTypeName = renderType(oldType, oldApi.schemas);
+            const newTypeName = renderType(newType, newApi.schemas);
+
+            if (isEnum(oldType) && isEnum(newType)) {
+                const removed = _.difference(oldType.enum, newType.enum);
+                const added = _.difference(newType.enum, oldType.enum);
+
+                removed.length && add({ kind: "changed", target, path, breaking: true, description: `removed enum values ${removed.join(", ")}`, oldType: oldTypeName, newType: newTypeName });
+                added.length && add({ kind: "changed", target, path, breaking: false, description: `added enum values ${added.join(", ")}`, oldType: oldTypeName, newType: newTypeName });
+            } else if (oldTypeName !== newTypeName) {
+                add({ kind: "changed", target, path, breaking: true, description: `type changed from ${oldTypeName} to ${newTypeName}`, oldType: oldTypeName, newType: newTypeName });
+            } else if (getSchemaFormat(oldType) !== getSchemaFormat(newType)) {
+                const oldFormat = getSchemaFormat(oldType);
+                const newFormat = getSchemaFormat(newType);
+
+                // removed format accepts more values, added or changed one restricts them
+                add({ kind: "changed", target, path, breaking: !!newFormat, description: `format changed from ${oldFormat || "none"} to ${newFormat || "none"}`, oldType: oldTypeName, newType: newTypeName });
+            }
+        }
+
+        if (!oldType.required && newType.required) {
+            add({ kind: "changed", target, path, breaking: true, description: `${target} became required` });
+        } else if (oldType.required && !newType.required) {
+            add({ kind: "changed", target, path, breaking: false, description: `${target} became optional` });
+        }
+    };
+
+    const diffProperties = (
+            target: "property" | "parameter",
+            path: string,
+            oldProperties: Record<string, gapi.client.discovery.JsonSchema> = {},
+            newProperties: Record<string, gapi.client.discovery.JsonSchema> = {},
+    ) => {
+        for (const name of _.union(_.keys(oldProperties), _.keys(newProperties)).sort()) {
+            const oldType = oldProperties[name];
+            const newType = newProperties[name];
+            const propertyPath = `${path}.${name}`;
+
+            if (!oldType) {
+                add({ kind: "added", target, path: propertyPath, breaking: !!newType.required, description: `added ${newType.required ? "required " : ""}${target}`, newType: renderType(newType, newApi.schemas) });
+            } else if (!newType) {
+                add({ kind: "removed", target, path: propertyPath, breaking: true, description: `removed ${target}`, oldType: renderType(oldType, oldApi.schemas) });
+            } else {
+                diffSchema(target, propertyPath, oldType, newType);
+            }
+        }
+    };
+
+    const oldSchemas = oldApi.schemas || {};
+    const newSchemas = newApi.schemas || {};
+
+    for (const name of _.union(_.keys(oldSchemas), _.keys(newSchemas)).sort()) {
+        if (!oldSchemas[name]) {
+            add({ kind: "added", target: "schema", path: name, breaking: false, description: "added schema" });
+        } else if (!newSchemas[name]) {
+            add({ kind: "removed", target: "schema", path: name, breaking: true, description: "removed schema" });
+        } else {
+            diffProperties("property", name, oldSchemas[name].properties, newSchemas[name].properties);
+        }
+    }
+
+    diffProperties("parameter", "parameters", oldApi.parameters, newApi.parameters);
+
+    const oldMethods = getMethods(oldApi);
+    const newMethods = getMethods(newApi);
+
+    for (const id of _.union(_.keys(oldMethods), _.keys(newMethods)).sort()) {
+        const oldMethod = oldMethods[id];
+        const newMethod = newMethods[id];
+
+        if (!oldMethod) {
+            add({ kind: "added", target: "method", path: id, breaking: false, description: "added method" });
+        } else if (!newMethod) {
+            add({ kind: "removed", target: "method", path: id, breaking: true, description: "removed method" });
+        } else {
+            const oldRequest = oldMethod.request && oldMethod.request.$ref;
+            const newRequest = newMethod.request && newMethod.request.$ref;
+            const oldResponse = oldMethod.response && oldMethod.response.$ref;
+            const newResponse = newMethod.response && newMethod.response.$ref;
+
+            if (oldRequest !== newRequest) {
+                add({ kind: "changed", target: "method", path: id, breaking: true, description: `request body changed from ${oldRequest || "none"} to ${newRequest || "none"}`, oldType: oldRequest, newType: newRequest });
+            }
+
+            if (oldResponse !== newResponse) {
+                add({ kind: "changed", target: "method", path: id, breaking: true, description: `response changed from ${oldResponse || "none"} to ${newResponse || "none"}`, oldType: oldResponse, newType: newResponse });
+            }
+
+            diffProperties("parameter", id, oldMethod.parameters, newMethod.parameters);
+        }
+    }
+
+    return {
+        id: newApi.id,
+        oldRevision: oldApi.revision,
+        newRevision: newApi.revision,
+        breaking: changes.some(change => change.breaking),
+        changes,
+    };
+}
+
+function formatDiff(diff: ApiDiff) {
+    const lines = [`${diff.id}: revision ${diff.oldRevision} -> ${diff.newRevision}`];
+
+    for (const change of diff.changes) {
+        lines.push(`  ${change.breaking ? "[breaking] " : ""}${change.target} ${change.path}: ${change.description}`);
+    }
+
+    if (diff.changes.length === 0) {
+        lines.push("  no changes");
+    }
+
+    return lines.join("\n");
+}
+
+function formatElapsed(milliseconds: number) {
+    return `${(milliseconds / 1000).toFixed(1)}s`;
+}
+
+// reports generated, skipped, failed and outdated services with reasons of failures, and orphaned directories
+export function formatSummary(summary: GenerationSummary) {
+    const byStatus = _.groupBy(summary.results, result => result.status);
+    const count = (status: ServiceResult["status"]) => (byStatus[status] || []).length;
+
+    const orphaned = summary.orphaned || [];
+
+    const outdated = count("outdated") ? `, outdated ${count("outdated")}` : "";
+    const pruned = orphaned.length ? `, orphaned ${orphaned.length}` : "";
+    const lines = [`Generated ${count("generated")}, skipped ${count("skipped")}, failed ${count("failed")}${outdated}${pruned} in ${formatElapsed(summary.elapsed)}`];
+
+    for (const result of summary.results) {
+        lines.push(`  ${result.id || result.url} (${result.status}, ${formatElapsed(result.elapsed)})${result.error ? `: ${result.error}` : ""}`);
+
+        for (const diagnostic of result.diagnostics || []) {
+            lines.push(`    ${diagnostic}`);
+        }
+    }
+
+    for (const directory of orphaned) {
+        lines.push(`  ${directory} (orphaned)`);
+    }
+
+    return lines.join("\n");
+}
+
+// loads RestDescription from file or from snapshot directory (preferred version of the service)
+function loadRestDescription(location: string, service?: string): gapi.client.discovery.RestDescription {
+    if (fs.statSync(location).isDirectory()) {
+        if (!service) {
+            throw new Error(`Service name is required to load API from directory ${location}`);
+        }
+
+        const list: gapi.client.discovery.DirectoryList = JSON.parse(fs.readFileSync(path.join(location, directoryFileName), "utf-8"));
+        const item = getPreferredApi(selectApis(list, service));
+
+        if (!item) {
+            throw new Error(`Can't find service ${service} in ${location}`);
         }
+
+        location = resolveDiscoveryLocation(location, item);
     }
+
+    return JSON.parse(fs.readFileSync(location, "utf-8"));
 }
 
-function parseOutPath(dir: string) {
+function parseDirectoryPath(dir: string) {
     if (!fs.existsSync(dir)) {
         throw new Error(`Directory not found: ${dir}`);
     }
@@ -1016,25 +3549,211 @@ function parseOutPath(dir: string) {
     return dir;
 }
 
-const params = program
-    .version("0.0.1")
-    .option("-u, --url [url]", "process only specific REST service definition by url")
-    .option("-s, --service [name]", "process only specific REST service definition by name")
-    .option("-a, --all", "include previously versions", false)
-    .option("-o, --out [path]", "output directory", parseOutPath)
-    .parse(process.argv);
+function parseTarget(target: string): OutputTarget {
+    if (target !== "namespace" && target !== "module") {
+        throw new Error(`Unknown target: ${target}`);
+    }
+
+    return target;
+}
+
+function parseConcurrency(value: string) {
+    const concurrency = Number(value);
+
+    if (!Number.isInteger(concurrency) || concurrency <= 0) {
+        throw new Error(`Concurrency must be a positive integer: ${value}`);
+    }
+
+    return concurrency;
+}
+
+function parseVerifyMode(mode: string): VerifyMode {
+    if (mode !== "report" && mode !== "fail") {
+        throw new Error(`Unknown verify mode: ${mode}`);
+    }
+
+    return mode;
+}
+
+function parseJsonSchemaDraft(draft: string): JsonSchemaDraft {
+    if (draft !== "draft-07" && draft !== "2020-12") {
+        throw new Error(`Unknown JSON Schema draft: ${draft}`);
+    }
+
+    return draft;
+}
+
+// loads specified configuration or configuration found in working directory
+function getConfig(filename?: string): GeneratorConfig {
+    const configFile = filename || findConfig(process.cwd());
+
+    if (!configFile) {
+        return {};
+    }
+
+    console.info(`Configuration: ${configFile}`);
+
+    try {
+        return loadConfig(configFile);
+    } catch (e) {
+        console.error(e.message);
+        return process.exit(1);
+    }
+}
 
-console.info(`Output directory: ${params.out}`);
+// loads plugin exported by module (default export or module.exports)
+function loadPlugin(id: string): GeneratorPlugin {
+    const loaded = require(id);
+    const plugin = loaded && loaded.default || loaded;
 
-const app = new App(params.out);
+    if (!plugin || typeof plugin.name !== "string") {
+        throw new Error(`Plugin ${id} must export object with name`);
+    }
 
-if (params.url) {
-    app
-        .processService(params.url, params.all || false)
-        .then(() => console.log("Done"));
+    return plugin;
 }
-else {
-    app
-        .discover(params.service, params.all || false)
-        .then(() => console.log("Done"));
+
+// run generator only when executed directly (not imported by tests)
+if (require.main === module) {
+    let commandExecuted = false;
+
+    program
+        .version("0.0.1")
+        .option("-u, --url [url]", "process only specific REST service definition by url")
+        .option("-f, --discovery-file [path]", "process only specific REST service definition from local file")
+        .option("-d, --from-dir [path]", `use local discovery directory (${directoryFileName} and <name>.<version>.json files) instead of discovery service`, parseDirectoryPath)
+        .option("-c, --cache [path]", "cache discovery documents in directory, APIs with unchanged revision are not regenerated")
+        .option("--force", "regenerate APIs even if their revision has not changed", false)
+        .option("--concurrency [n]", "number of services generated at the same time", parseConcurrency, 1)
+        .option("--check", "compare generated files with files in output directory instead of writing them, fail if they differ", false)
+        .option("--verify [mode]", "compile generated files of every API and report (default) or fail on compilation errors", parseVerifyMode)
+        .option("--prune", "remove typings directories of APIs and versions missing from discovery directory (report them with --check)", false)
+        .option("-s, --service [name]", "process only specific REST service definition by name")
+        .option("-a, --all", "include previously versions", false)
+        .option("-o, --out [path]", "output directory", parseDirectoryPath)
+        .option("--config [path]", `configuration file (${configFileNames.join(" or ")} in working directory by default)`)
+        .option("-t, --target [target]", "output target: namespace (global gapi.client typings, default) or module (ES module per API)", parseTarget)
+        .option("--client", "emit runtime client (client.ts) for module target", false)
+        .option("--validators", "emit runtime validators and type guards for schemas (validators.ts)", false)
+        .option("--json-schema [draft]", "emit JSON Schema (draft-07 or 2020-12, default) for every schema (json-schema/<Schema>.json)", parseJsonSchemaDraft)
+        .option("--routes", "emit lookup type of methods by HTTP method and path for typed gapi.client.request calls", false)
+        .option("--pagination", "emit pagination types of list methods (pageToken, nextPageToken and items)", false)
+        .option("--partial-responses", "emit method overloads returning only properties selected by literal fields parameter, and fields() builder (fields.ts)", false)
+        .option("--scopes", "emit OAuth scope types and scope constants (scopes.ts)", false)
+        .option("--media", "emit method overloads for media download (alt=media) and upload (uploadType)", false)
+        .option("--request-bodies", "emit per-method request body types (output only properties omitted, method-required properties required)", false)
+        .option("--enum-aliases", "emit named type aliases for enum-valued schema properties", false)
+        .option("--format-types", "emit branded named types (Int64String, DateTimeString, Int32Number, ...) for formatted strings and numbers", false);
+
+    program
+        .command("snapshot <directory>")
+        .description("download discovery directory and REST descriptions (all or --service) into local directory")
+        .action((directory: string) => {
+            commandExecuted = true;
+            const config = getConfig(program.config);
+            new DiscoveryCache(directory)
+                .snapshot(program.service, { include: config.include, exclude: config.exclude })
+                .then(failed => {
+                    if (failed.length) {
+                        console.error(`${failed.length} discovery document(s) could not be downloaded`);
+                        process.exitCode = 1;
+                    } else {
+                        console.log("Done");
+                    }
+                })
+                .catch(error => {
+                    console.error(error.message);
+                    process.exitCode = 1;
+                });
+        });
+
+    program
+        .command("diff <old> <new>")
+        .description("report changes between two REST descriptions (files or snapshot directories with --service)")
+        .option("--json", "print report as JSON")
+        .action((oldLocation: string, newLocation: string, options) => {
+            commandExecuted = true;
+            const diff = diffApis(loadRestDescription(oldLocation, program.service), loadRestDescription(newLocation, program.service));
+            console.log(options.json ? JSON.stringify(diff, null, 2) : formatDiff(diff));
+        });
+
+    program
+        .command("openapi <discovery> [output]")
+        .description("convert REST description (file or snapshot directory with --service) to OpenAPI 3 document")
+        .action((location: string, output?: string) => {
+            commandExecuted = true;
+            const document = JSON.stringify(convertToOpenApi(loadRestDescription(location, program.service), message => console.warn(message)), null, 2);
+
+            if (output) {
+                fs.writeFileSync(output, document);
+            } else {
+                console.log(document);
+            }
+        });
+
+    const params = program.parse(process.argv);
+
+    if (!commandExecuted) {
+        const config = getConfig(params.config);
+        const output = config.output || {};
+        const out = params.out || output.directory;
+
+        console.info(`Output directory: ${out}`);
+
+        const app = new App(out, {
+            target: params.target || output.target,
+            client: params.client || false,
+            requestBodyTypes: params.requestBodies || false,
+            media: params.media || false,
+            scopes: params.scopes || false,
+            pagination: params.pagination || false,
+            partialResponses: params.partialResponses || false,
+            routes: params.routes || false,
+            validators: params.validators || false,
+            // option without value is set to true
+            jsonSchema: params.jsonSchema === true ? "2020-12" : params.jsonSchema,
+            enumTypeAliases: params.enumAliases || false,
+            formatTypes: params.formatTypes || config.formats ? { ...(params.formatTypes ? defaultFormatTypes : {}), ...config.formats } : undefined,
+            discoveryDirectory: params.fromDir,
+            cacheDirectory: params.cache,
+            force: params.force || false,
+            concurrency: params.concurrency,
+            check: params.check || false,
+            prune: params.prune || false,
+            // option without value is set to true
+            verify: params.verify === true ? "report" : params.verify,
+            include: config.include,
+            exclude: config.exclude,
+            versions: config.versions,
+            typesMap: config.types,
+            header: config.header,
+            layout: output.layout,
+            templates: config.templates,
+            maxCommentLine: config.comments && config.comments.maxLineLength,
+            plugins: (config.plugins || []).map(loadPlugin),
+        });
+
+        const started = Date.now();
+
+        const generation: Promise<GenerationSummary> = params.url || params.discoveryFile
+            ? app
+                .processService(params.url || params.discoveryFile, params.all || false)
+                .then(result => ({ results: [result], elapsed: Date.now() - started }))
+            : app.discover(params.service, params.all || false);
+
+        generation
+            .then(summary => {
+                console.log(formatSummary(summary));
+
+                // orphaned directories are removed unless only checking
+                if (summary.results.some(result => result.status === "failed" || result.status === "outdated")
+                    || params.check && summary.orphaned && summary.orphaned.length) {
+                    process.exitCode = 1;
+                }
+            })
+            .catch(error => {
+                console.error(error.message);
+                process.exitCode = 1;
+            });
+    }
 }
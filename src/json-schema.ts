@@ -0,0 +1,164 @@
+import * as _ from 'lodash';
+
+export type JsonSchemaDraft = "draft-07" | "2020-12";
+
+export interface JsonSchemaObject {
+    $schema?: string;
+    $id?: string;
+    $ref?: string;
+    $defs?: Record<string, JsonSchemaObject>;
+    definitions?: Record<string, JsonSchemaObject>;
+    title?: string;
+    description?: string;
+    type?: string;
+    format?: string;
+    pattern?: string;
+    contentEncoding?: string;
+    enum?: string[];
+    minimum?: number;
+    maximum?: number;
+    readOnly?: boolean;
+    items?: JsonSchemaObject;
+    properties?: Record<string, JsonSchemaObject>;
+    required?: string[];
+    additionalProperties?: JsonSchemaObject;
+}
+
+const metaSchemas: Record<JsonSchemaDraft, string> = {
+    "draft-07": "http://json-schema.org/draft-07/schema#",
+    "2020-12": "https://json-schema.org/draft/2020-12/schema",
+};
+
+// Google formats which have no equivalent in JSON Schema are expressed with other keywords
+const formats: Record<string, JsonSchemaObject> = {
+    "int32": { minimum: -2147483648, maximum: 2147483647 },
+    "uint32": { minimum: 0, maximum: 4294967295 },
+    "int64": { pattern: "^-?[0-9]+$" },
+    "uint64": { pattern: "^[0-9]+$" },
+    "date": { format: "date" },
+    "date-time": { format: "date-time" },
+    "google-datetime": { format: "date-time" },
+    "google-duration": { pattern: "^-?[0-9]+(\\.[0-9]{1,9})?s$" },
+    "byte": { contentEncoding: "base64" },
+};
+
+// returns location of schema definitions for the draft, e.g. #/$defs/
+export function getDefinitionsPrefix(draft: JsonSchemaDraft) {
+    return draft === "draft-07" ? "#/definitions/" : "#/$defs/";
+}
+
+// converts discovery schema (draft-03 dialect) into JSON Schema, references are prefixed with refPrefix
+export function convertSchema(schema: gapi.client.discovery.JsonSchema, refPrefix: string): JsonSchemaObject {
+    if (schema.$ref) {
+        // keywords next to $ref are ignored by draft-07, so description is not copied
+        return { $ref: refPrefix + schema.$ref };
+    }
+
+    const result: JsonSchemaObject = {};
+
+    if (schema.description) {
+        result.description = schema.description;
+    }
+
+    if (schema.type === "array") {
+        if (!schema.items) {
+            throw new Error(`Expected property 'items' on array type but was ${schema.items}`);
+        }
+
+        result.type = "array";
+        result.items = convertSchema(schema.items, refPrefix);
+    } else if (schema.type === "object") {
+        result.type = "object";
+
+        if (schema.properties) {
+            result.properties = _.mapValues(schema.properties, property => convertSchema(property, refPrefix));
+
+            const required = _.keys(_.pickBy(schema.properties, property => property.required)).sort();
+
+            if (required.length) {
+                result.required = required;
+            }
+        }
+
+        if (schema.additionalProperties) {
+            result.additionalProperties = convertSchema(schema.additionalProperties, refPrefix);
+        }
+    } else if (schema.type && schema.type !== "any") {
+        result.type = schema.type;
+    }
+
+    if (schema.enum) {
+        result.enum = schema.enum;
+    }
+
+    if (schema.format && formats[schema.format]) {
+        Object.assign(result, formats[schema.format]);
+    }
+
+    if (schema.pattern) {
+        result.pattern = schema.pattern;
+    }
+
+    if (schema.minimum != null) {
+        result.minimum = Number(schema.minimum);
+    }
+
+    if (schema.maximum != null) {
+        result.maximum = Number(schema.maximum);
+    }
+
+    if (schema.readOnly) {
+        result.readOnly = true;
+    }
+
+    return result;
+}
+
+// returns names of schemas referenced by the schema
+function getReferences(schema: gapi.client.discovery.JsonSchema): string[] {
+    if (schema.$ref) {
+        return [schema.$ref];
+    }
+
+    return _.flatMap([
+        ..._.values(schema.properties),
+        ...(schema.items ? [schema.items] : []),
+        ...(schema.additionalProperties ? [schema.additionalProperties] : []),
+    ], getReferences);
+}
+
+// converts every schema of API into self-contained JSON Schema document, referenced schemas are bundled as definitions
+export function convertSchemas(api: gapi.client.discovery.RestDescription, draft: JsonSchemaDraft = "2020-12"): Record<string, JsonSchemaObject> {
+    const schemas = api.schemas || {};
+    const refPrefix = getDefinitionsPrefix(draft);
+
+    return _.mapValues(schemas, (schema, name) => {
+        // collect schemas reachable from the root, cycles are stopped by the visited set
+        const visited = new Set<string>();
+        const queue = getReferences(schema);
+
+        while (queue.length) {
+            const reference = queue.shift()!;
+
+            if (!visited.has(reference) && schemas[reference]) {
+                visited.add(reference);
+                queue.push(...getReferences(schemas[reference]));
+            }
+        }
+
+        const definitions = _.fromPairs(Array.from(visited).sort()
+            .map(reference => [reference, convertSchema(schemas[reference], refPrefix)]));
+
+        const document: JsonSchemaObject = {
+            $schema: metaSchemas[draft],
+            title: name,
+            ...convertSchema(schema, refPrefix),
+        };
+
+        if (visited.size) {
+            document[draft === "draft-07" ? "definitions" : "$defs"] = definitions;
+        }
+
+        return document;
+    });
+}
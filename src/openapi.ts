@@ -0,0 +1,240 @@
+import * as _ from 'lodash';
+import { convertSchema, JsonSchemaObject } from './json-schema';
+
+export interface OpenApiParameter {
+    name: string;
+    in: string;
+    description?: string;
+    required?: boolean;
+    deprecated?: boolean;
+    explode?: boolean;
+    schema: JsonSchemaObject;
+}
+
+export interface OpenApiReference {
+    $ref: string;
+}
+
+export interface OpenApiOperation {
+    operationId?: string;
+    description?: string;
+    tags?: string[];
+    deprecated?: boolean;
+    parameters: (OpenApiParameter | OpenApiReference)[];
+    requestBody?: {
+        required: boolean;
+        content: Record<string, { schema: JsonSchemaObject }>;
+    };
+    responses: Record<string, {
+        description: string;
+        content?: Record<string, { schema: JsonSchemaObject }>;
+    }>;
+    security?: Record<string, string[]>[];
+}
+
+export interface OpenApiOAuth2SecurityScheme {
+    type: "oauth2";
+    description?: string;
+    flows: {
+        authorizationCode: {
+            authorizationUrl: string;
+            tokenUrl: string;
+            /** Descriptions by scope */
+            scopes: Record<string, string>;
+        };
+    };
+}
+
+export interface OpenApiDocument {
+    openapi: string;
+    info: {
+        title: string;
+        version: string;
+        description?: string;
+    };
+    externalDocs?: { url: string };
+    servers: { url: string }[];
+    paths: Record<string, Record<string, OpenApiOperation>>;
+    components: {
+        schemas: Record<string, JsonSchemaObject>;
+        parameters: Record<string, OpenApiParameter>;
+        securitySchemes?: Record<string, OpenApiOAuth2SecurityScheme>;
+    };
+}
+
+const schemasPrefix = "#/components/schemas/";
+
+const authorizationUrl = "https://accounts.google.com/o/oauth2/auth";
+
+const tokenUrl = "https://oauth2.googleapis.com/token";
+
+// component names are restricted to ^[a-zA-Z0-9.\-_]+$
+function getComponentName(name: string) {
+    return name.replace(/[^a-zA-Z0-9.\-_]/g, "_");
+}
+
+function convertParameter(name: string, parameter: gapi.client.discovery.JsonSchema): OpenApiParameter {
+    const { description, required, repeated, location, deprecated, ...schema } = parameter;
+    const converted = convertSchema(schema, schemasPrefix);
+
+    const result: OpenApiParameter = {
+        name,
+        in: location || "query",
+        schema: repeated ? { type: "array", items: converted } : converted,
+    };
+
+    if (description) {
+        result.description = description;
+    }
+
+    if (required || result.in === "path") {
+        result.required = true;
+    }
+
+    if (deprecated) {
+        result.deprecated = true;
+    }
+
+    if (repeated) {
+        result.explode = true;
+    }
+
+    return result;
+}
+
+// returns path of the method and its path parameters: methods with reserved expansion in path (e.g. v1/{+name}) share the same path,
+// so flat path is used instead and its parameters (e.g. {shelvesId}) are described as segments of path parameters they are part of
+function getPath(method: gapi.client.discovery.RestMethod) {
+    const parameters = method.parameters || {};
+    const pathParameters = _.keys(_.pickBy(parameters, parameter => parameter.location === "path"));
+
+    if (!method.flatPath) {
+        // reserved expansion {+name} is not supported by OpenAPI, parameter value is expected to contain slashes
+        const path = (method.path || "").replace(/\{\+/g, "{");
+        return { path, parameters: pathParameters.map(name => convertParameter(name, parameters[name])) };
+    }
+
+    const flatParameters = _.uniq((method.flatPath.match(/\{[^}]+\}/g) || []).map(expression => expression.slice(1, -1)));
+    // path parameters replaced by segments of flat path
+    const expanded = pathParameters.filter(name => !_.includes(flatParameters, name));
+
+    return {
+        path: method.flatPath,
+        parameters: flatParameters.map(name => parameters[name]
+            ? convertParameter(name, parameters[name])
+            : convertParameter(name, {
+                type: "string",
+                location: "path",
+                description: expanded.length ? `Segment of ${expanded.join(", ")} parameter` : undefined,
+            })),
+    };
+}
+
+function jsonContent(schema: JsonSchemaObject) {
+    return { "application/json": { schema } };
+}
+
+// converts RestDescription into OpenAPI 3.1 document (schemas are JSON Schema 2020-12 compatible),
+// methods which can't be converted (e.g. sharing path and HTTP method with another one) are skipped and reported to onWarning
+export function convertToOpenApi(api: gapi.client.discovery.RestDescription, onWarning: (message: string) => void = () => {}): OpenApiDocument {
+    const document: OpenApiDocument = {
+        openapi: "3.1.0",
+        info: {
+            title: api.title || api.name || "",
+            version: api.version || "",
+        },
+        servers: [{ url: api.rootUrl ? api.rootUrl + (api.servicePath || "") : api.baseUrl || "" }],
+        paths: {},
+        components: {
+            schemas: _.mapValues(api.schemas || {}, schema => convertSchema(schema, schemasPrefix)),
+            parameters: {},
+        },
+    };
+
+    if (api.description) {
+        document.info.description = api.description;
+    }
+
+    if (api.documentationLink) {
+        document.externalDocs = { url: api.documentationLink };
+    }
+
+    const scopes = api.auth && api.auth.oauth2 && api.auth.oauth2.scopes;
+
+    if (scopes) {
+        document.components.securitySchemes = {
+            oauth2: {
+                type: "oauth2",
+                flows: {
+                    authorizationCode: {
+                        authorizationUrl,
+                        tokenUrl,
+                        scopes: _.mapValues(scopes, scope => scope.description || ""),
+                    },
+                },
+            },
+        };
+    }
+
+    // global parameters are shared by all operations
+    _.forEach(api.parameters, (parameter, name) => {
+        document.components.parameters[getComponentName(name)] = convertParameter(name, parameter);
+    });
+
+    const globalParameters = _.keys(api.parameters).map(name => ({ $ref: `#/components/parameters/${getComponentName(name)}` }));
+
+    const addMethods = (resource: gapi.client.discovery.RestResource, tags: string[]) => {
+        _.forEach(resource.methods, (method, methodName) => {
+            const httpMethod = (method.httpMethod || "GET").toLowerCase();
+            const { path: methodPath, parameters: pathParameters } = getPath(method);
+            const path = "/" + methodPath;
+            const pathItem = document.paths[path] = document.paths[path] || {};
+
+            if (pathItem[httpMethod]) {
+                onWarning(`Skipping ${method.id}, ${httpMethod.toUpperCase()} ${path} is already defined by ${pathItem[httpMethod].operationId}`);
+                return;
+            }
+
+            const operation: OpenApiOperation = {
+                operationId: method.id || methodName,
+                parameters: [
+                    ...pathParameters,
+                    ..._.map(_.omitBy(method.parameters, parameter => parameter.location === "path"), (parameter, name) => convertParameter(name, parameter)),
+                    ...globalParameters,
+                ],
+                responses: {
+                    "200": method.response && method.response.$ref
+                        ? { description: "Successful response", content: jsonContent({ $ref: schemasPrefix + method.response.$ref }) }
+                        : { description: "Successful response" },
+                },
+            };
+
+            if (method.description) {
+                operation.description = method.description;
+            }
+
+            if (tags.length) {
+                operation.tags = [tags.join(".")];
+            }
+
+            if (method.request && method.request.$ref) {
+                operation.requestBody = {
+                    required: true,
+                    content: jsonContent({ $ref: schemasPrefix + method.request.$ref }),
+                };
+            }
+
+            if (method.scopes && method.scopes.length) {
+                operation.security = [{ oauth2: method.scopes }];
+            }
+
+            pathItem[httpMethod] = operation;
+        });
+
+        _.forEach(resource.resources, (child, name) => addMethods(child, [...tags, name]));
+    };
+
+    addMethods(api, []);
+
+    return document;
+}
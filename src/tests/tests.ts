@@ -1,7 +1,66 @@
 import * as assert from 'assert';
+import * as childProcess from 'child_process';
 import 'jasmine';
 import * as _ from 'lodash';
-import { App } from '../google-api-typings-generator';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { App, AppOptions, defaultFormatTypes, GeneratorPlugin, diffApis, formatSummary, getComment, getMethodComment, getPagination, getParameterComment, getRequestBodyType, getType, getUploadTypes, DiscoveryCache, isTransientError, manifestFileName, mapConcurrently, removeDirectory, sanitizeNames, sortApi, supportsPartialResponse, toIdentifier, resolveDiscoveryLocation, selectApis } from '../google-api-typings-generator';
+import { matchesGlob, validateConfig } from '../config';
+import { convertSchema, convertSchemas } from '../json-schema';
+import { convertToOpenApi } from '../openapi';
+import { verifyTypings } from '../verify';
+
+const booksApi = {
+    name: "books",
+    version: "v1",
+    id: "books:v1",
+    schemas: { Book: { id: "Book", type: "object", properties: { name: { type: "string" } } } },
+    resources: { books: { methods: { get: { id: "books.books.get", path: "v1/{+name}", httpMethod: "GET", response: { $ref: "Book" } } } } },
+};
+
+interface Fixture {
+    directory: string;
+    discoveryFile: string;
+    out: string;
+}
+
+// creates temporary directory with discovery document of the API before tests of the suite, removes it after them
+function useFixture(api: object = booksApi): Fixture {
+    const fixture: Fixture = { directory: "", discoveryFile: "", out: "" };
+
+    before(() => {
+        fixture.directory = fs.mkdtempSync(path.join(os.tmpdir(), "typings-"));
+        fixture.discoveryFile = path.join(fixture.directory, "books.v1.json");
+        fixture.out = path.join(fixture.directory, "out");
+        fs.writeFileSync(fixture.discoveryFile, JSON.stringify(api));
+    });
+
+    after(() => removeDirectory(fixture.directory));
+
+    return fixture;
+}
+
+// declares suite which compiles TypeScript, type checking of default libraries (or compilation of the generator) takes a while
+function describeCompiling(title: string, callback: (this: Mocha.Suite) => void) {
+    return describe(title, function () {
+        this.timeout(60000);
+        callback.call(this);
+    });
+}
+
+function generate(fixture: Fixture, options: AppOptions = {}) {
+    return new App(fixture.out, { quiet: true, ...options }).processService(fixture.discoveryFile, true);
+}
+
+// transpiles generated runtime module next to it and loads it
+function loadModule(filename: string) {
+    const output = ts.transpileModule(fs.readFileSync(filename, "utf-8"), { compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2015 } });
+    const jsFilename = filename.replace(/\.ts$/, ".js");
+    fs.writeFileSync(jsFilename, output.outputText);
+    return require(jsFilename);
+}
 
 describe("version parser", () => {
     var expectations = {
@@ -18,3 +77,1132 @@ describe("version parser", () => {
     });
 
 });
+
+describe("identifiers", () => {
+    const expectations = {
+        "Book": "Book",
+        "debugger": "debugger_",
+        "string": "string_",
+        "2fa": "_2fa",
+        "a b/c-d": "a_b_c_d",
+        "$ref": "$ref",
+    };
+
+    _.forEach(expectations, (expected, given) => {
+        it("should convert: " + given, () => {
+            assert.equal(toIdentifier(given), expected);
+        });
+    });
+
+    it("should rename schemas and references to them", () => {
+        const api: gapi.client.discovery.RestDescription = {
+            schemas: { "2fa-Config": { id: "2fa-Config", type: "object", properties: { self: { $ref: "2fa-Config" } } } },
+            resources: { users: { methods: { get: { id: "users.get", response: { $ref: "2fa-Config" } } } } },
+        };
+
+        sanitizeNames(api);
+
+        assert.deepEqual(api.schemas, { _2fa_Config: { id: "_2fa_Config", type: "object", properties: { self: { $ref: "_2fa_Config" } } } });
+        assert.deepEqual(api.resources!.users.methods!.get.response, { $ref: "_2fa_Config" });
+    });
+
+    it("should rename schemas named as helper types", () => {
+        const api: gapi.client.discovery.RestDescription = { schemas: { Paginated: { id: "Paginated", type: "object" }, Book: { id: "Book", type: "object" } } };
+
+        sanitizeNames(api, ["Paginated"]);
+
+        assert.deepEqual(_.keys(api.schemas), ["Paginated_", "Book"]);
+    });
+
+    it("should report colliding names", () => {
+        assert.throws(() => sanitizeNames({ schemas: { "a-b": {}, "a_b": {} } }), /Schemas "a-b" and "a_b" map to the same identifier a_b/);
+        assert.throws(() => sanitizeNames({ resources: { "a-b": {}, "a.b": {} } }), /Resources "a-b" and "a.b" map to the same identifier A_bResource/);
+    });
+});
+
+describe("enum types", () => {
+    const orderBy: gapi.client.discovery.JsonSchema = {
+        type: "string",
+        description: "Sort order.",
+        enum: ["ASC", "DESC"],
+        enumDescriptions: ["Ascending", "Descending"],
+    };
+
+    it("should emit string literal union", () => {
+        assert.equal(getType(orderBy, {}), `"ASC" | "DESC"`);
+    });
+
+    it("should emit union for repeated parameters", () => {
+        assert.equal(getType({ ...orderBy, repeated: true }, {}), `"ASC" | "DESC" | Array<"ASC" | "DESC">`);
+    });
+
+    it("should emit array of union for array items", () => {
+        assert.equal(getType({ type: "array", items: orderBy }, {}), `Array<"ASC" | "DESC">`);
+    });
+
+    it("should document enum values", () => {
+        assert.equal(getComment(orderBy), `Sort order.\nPossible values:\n"ASC" - Ascending\n"DESC" - Descending`);
+    });
+
+    describeCompiling("type aliases", () => {
+        const fixture = useFixture({
+            ...booksApi,
+            schemas: {
+                ...booksApi.schemas,
+                Foo: { id: "Foo", type: "object", properties: { barBaz: orderBy } },
+                FooBar: { id: "FooBar", type: "object", properties: { baz: orderBy } },
+                Books: { id: "Books", type: "object", properties: { resource: orderBy } },
+            },
+        });
+
+        it("should keep inline union when alias name is already declared", async () => {
+            const result = await generate(fixture, { enumTypeAliases: true, verify: "fail" });
+            assert.deepEqual(result.diagnostics, []);
+
+            const typings = fs.readFileSync(path.join(fixture.out, "gapi.client.books", "index.d.ts"), "utf-8");
+            assert.equal(typings.split("type FooBarBaz = ").length, 2);
+            assert.ok(!typings.includes("type BooksResource = "));
+            assert.ok(typings.includes(`resource?: "ASC" | "DESC";`));
+        });
+    });
+});
+
+describe("format types", () => {
+    const int64: gapi.client.discovery.JsonSchema = { type: "string", format: "int64", description: "Identifier." };
+
+    it("should keep plain string by default", () => {
+        assert.equal(getType(int64, {}), "string");
+    });
+
+    it("should use configured format type", () => {
+        assert.equal(getType(int64, {}, defaultFormatTypes), "Int64String");
+        assert.equal(getType({ type: "array", items: int64 }, {}, defaultFormatTypes), "Int64String[]");
+    });
+
+    it("should use format types of numbers", () => {
+        assert.equal(getType({ type: "integer", format: "uint32" }, {}, defaultFormatTypes), "Uint32Number");
+        assert.equal(getType({ type: "number", format: "double" }, {}, defaultFormatTypes), "DoubleNumber");
+        assert.equal(getType({ type: "integer", format: "int32" }, {}), "number");
+    });
+
+    it("should annotate format", () => {
+        assert.equal(getComment(int64), "Identifier.\n@format int64");
+    });
+});
+
+describeCompiling("additional properties", () => {
+    const fixture = useFixture({
+        ...booksApi,
+        schemas: {
+            Book: {
+                id: "Book",
+                type: "object",
+                properties: {
+                    labels: { type: "object", additionalProperties: { type: "string" } },
+                    meta: { type: "object", properties: { count: { type: "integer" } }, additionalProperties: { type: "integer" } },
+                },
+            },
+            Labels: { id: "Labels", type: "object", additionalProperties: { type: "string" } },
+        },
+    });
+
+    it("should declare index signatures", async () => {
+        const result = await generate(fixture, { verify: "fail" });
+        assert.deepEqual(result.diagnostics, []);
+
+        const typings = fs.readFileSync(path.join(fixture.out, "gapi.client.books", "index.d.ts"), "utf-8");
+        assert.ok(typings.includes("labels?: Record<string, string>;"));
+        assert.ok(/interface Labels \{\s+\[key: string\]: string;\s+\}/.test(typings));
+        assert.ok(/count\?: number;\s+\[key: string\]: number \| undefined;/.test(typings));
+        assert.ok(!typings.includes(`"[key: string]"`));
+    });
+});
+
+describe("method comments", () => {
+    it("should document HTTP request, scopes and deprecation", () => {
+        assert.equal(getMethodComment({
+            description: "Gets a book.",
+            httpMethod: "GET",
+            path: "v1/{+name}",
+            flatPath: "v1/shelves/{shelvesId}/books/{booksId}",
+            scopes: ["https://www.googleapis.com/auth/books"],
+            deprecated: true,
+        }, "https://developers.google.com/books/"), [
+            "Gets a book.",
+            "@httpMethod GET",
+            "@path v1/{+name}",
+            "@flatPath v1/shelves/{shelvesId}/books/{booksId}",
+            "@scope https://www.googleapis.com/auth/books",
+            "@deprecated",
+            "@see https://developers.google.com/books/",
+        ].join("\n"));
+    });
+
+    it("should document parameter location and constraints", () => {
+        assert.equal(getParameterComment({
+            type: "integer",
+            description: "Maximum number of books.",
+            location: "query",
+            minimum: "1",
+            maximum: "100",
+            default: "10",
+            deprecated: true,
+        }), "Maximum number of books.\n@deprecated\n@location query\n@minimum 1\n@maximum 100\n@default 10");
+    });
+});
+
+describe("request body types", () => {
+    const schema: gapi.client.discovery.JsonSchema = {
+        type: "object",
+        properties: {
+            name: { type: "string", annotations: { required: ["books.books.create"] } },
+            createTime: { type: "string", description: "Output only. Creation time." },
+            id: { type: "string", readOnly: true },
+            title: { type: "string" },
+        },
+    };
+
+    it("should omit output only properties and require annotated ones", () => {
+        assert.equal(getRequestBodyType("Book", schema, "books.books.create"),
+            `Omit<Book, "createTime" | "id"> & Required<Pick<Book, "name">>`);
+        assert.equal(getRequestBodyType("Book", schema, "books.books.update"), `Omit<Book, "createTime" | "id">`);
+    });
+
+    it("should return undefined when body is the schema", () => {
+        assert.equal(getRequestBodyType("Book", { type: "object", properties: { title: { type: "string" } } }, "books.books.create"), undefined);
+    });
+});
+
+describe("pagination", () => {
+    const schemas: Record<string, gapi.client.discovery.JsonSchema> = {
+        Book: { id: "Book", type: "object", properties: { name: { type: "string" } } },
+        ListBooksResponse: {
+            id: "ListBooksResponse",
+            type: "object",
+            properties: {
+                books: { type: "array", items: { $ref: "Book" } },
+                nextPageToken: { type: "string" },
+                unreachable: { type: "array", items: { type: "string" } },
+            },
+        },
+    };
+
+    it("should detect items of paginated method", () => {
+        const pagination = getPagination({ parameters: { pageToken: { type: "string" } }, response: { $ref: "ListBooksResponse" } }, schemas);
+        assert.deepEqual(pagination, { responseType: "ListBooksResponse", itemsProperty: "books", items: { $ref: "Book" } });
+    });
+
+    it("should ignore methods without page token", () => {
+        assert.equal(getPagination({ parameters: {}, response: { $ref: "ListBooksResponse" } }, schemas), undefined);
+        assert.equal(getPagination({ parameters: { pageToken: { type: "string" } }, response: { $ref: "Book" } }, schemas), undefined);
+    });
+});
+
+describe("partial responses", () => {
+    const api: gapi.client.discovery.RestDescription = {
+        parameters: { fields: { type: "string", location: "query" } },
+        schemas: {
+            Book: { id: "Book", type: "object", properties: { name: { type: "string" } } },
+            Empty: { id: "Empty", type: "object" },
+        },
+    };
+
+    it("should support methods responding with schema", () => {
+        assert.equal(supportsPartialResponse({ response: { $ref: "Book" } }, api), true);
+    });
+
+    it("should not support methods without response or with empty response", () => {
+        assert.equal(supportsPartialResponse({}, api), false);
+        assert.equal(supportsPartialResponse({ response: { $ref: "Empty" } }, api), false);
+    });
+
+    it("should require fields parameter", () => {
+        assert.equal(supportsPartialResponse({ response: { $ref: "Book" } }, { ...api, parameters: {} }), false);
+    });
+
+    describeCompiling("fields builder", () => {
+        const fixture = useFixture({
+            ...booksApi,
+            parameters: api.parameters,
+            schemas: { Book: { id: "Book", type: "object", properties: { name: { type: "string" }, authors: { type: "array", items: { $ref: "Author" } } } }, Author: { id: "Author", type: "object", properties: { name: { type: "string" }, born: { type: "string" } } } },
+        });
+
+        it("should format selection and type response of namespace methods", async () => {
+            const result = await generate(fixture, { partialResponses: true, verify: "fail" });
+            assert.deepEqual(result.diagnostics, []);
+
+            const typingsDirectory = path.join(fixture.out, "gapi.client.books");
+            assert.equal(loadModule(path.join(typingsDirectory, "fields.ts")).fields({ name: true, authors: { name: true } }), "name,authors(name)");
+
+            fs.writeFileSync(path.join(typingsDirectory, "usage.ts"), [
+                `import { fields } from "./fields";`,
+                `gapi.client.books.books.get({ fields: fields({ name: true, authors: { name: true } }) }).then(response => {`,
+                `    const name: string | undefined = response.result.authors![0].name;`,
+                `    response.result.authors![0].born;`,
+                `});`,
+            ].join("\n"));
+
+            const diagnostics = verifyTypings(typingsDirectory);
+            assert.equal(diagnostics.length, 1, diagnostics.join("\n"));
+            assert.ok(diagnostics[0].startsWith("usage.ts(4,33): error TS2339"), diagnostics[0]);
+        });
+
+        it("should type response of namespace methods by literal fields", async () => {
+            await generate(fixture, { partialResponses: true });
+
+            const typingsDirectory = path.join(fixture.out, "gapi.client.books");
+            fs.writeFileSync(path.join(typingsDirectory, "usage.ts"), [
+                `declare const fields: string;`,
+                `gapi.client.books.books.get({ fields: "name,authors(name)" }).then(response => {`,
+                `    const name: string | undefined = response.result.authors![0].name;`,
+                `    response.result.authors![0].born;`,
+                `});`,
+                `gapi.client.books.books.get({ fields: "authors/born" }).then(response => response.result.name);`,
+                `gapi.client.books.books.get({ fields: "authors(*)" }).then(response => response.result.authors![0].born);`,
+                `gapi.client.books.books.get({ fields }).then(response => response.result.name);`,
+                `gapi.client.books.books.get({ fields: "authors(name" }).then(response => response.result.name);`,
+            ].join("\n"));
+
+            const diagnostics = verifyTypings(typingsDirectory);
+            assert.deepEqual(diagnostics.map(diagnostic => diagnostic.split(":")[0]), ["usage.ts(4,33)", "usage.ts(6,90)"], diagnostics.join("\n"));
+        });
+    });
+});
+
+describeCompiling("media upload", () => {
+    it("should derive upload types from protocols", () => {
+        assert.deepEqual(getUploadTypes({ protocols: { simple: { multipart: true, path: "/upload/v1/files" }, resumable: { path: "/resumable/upload/v1/files" } } }),
+            ["media", "multipart", "resumable"]);
+        assert.deepEqual(getUploadTypes({ protocols: { simple: { multipart: false } } }), ["media"]);
+    });
+
+    const fixture = useFixture({
+        ...booksApi,
+        parameters: { uploadType: { type: "string", location: "query" } },
+        resources: {
+            books: {
+                methods: {
+                    insert: {
+                        id: "books.books.insert",
+                        path: "v1/books",
+                        httpMethod: "POST",
+                        request: { $ref: "Book" },
+                        response: { $ref: "Book" },
+                        supportsMediaUpload: true,
+                        mediaUpload: { accept: ["application/pdf"], protocols: { simple: { multipart: true, path: "/upload/v1/books" } } },
+                    },
+                },
+            },
+        },
+    });
+
+    it("should check upload type and media content of upload overload of runtime client", async () => {
+        const result = await generate(fixture, { target: "module", client: true, media: true, verify: "fail" });
+        assert.deepEqual(result.diagnostics, []);
+
+        const typingsDirectory = path.join(fixture.out, "books");
+        const typings = fs.readFileSync(path.join(typingsDirectory, "index.d.ts"), "utf-8");
+        // upload overload precedes regular signature
+        assert.ok(typings.indexOf(`{ uploadType: "media" | "multipart" } & { media: MediaContent<"application/pdf"> }`) < typings.indexOf("insert(request: BooksInsertRequest,"));
+
+        fs.writeFileSync(path.join(typingsDirectory, "usage.ts"), [
+            `import { createClient } from "./client";`,
+            `const books = createClient({ request: () => Promise.resolve({} as any) }).books;`,
+            `books.insert({ uploadType: "media", media: { mimeType: "application/pdf", body: "%PDF" } });`,
+            `books.insert({ uploadType: "multipart", media: { mimeType: "application/pdf", body: new Blob() } }, { name: "Book" });`,
+            `books.insert({ uploadType: "resumable", media: { mimeType: "application/pdf", body: "%PDF" } });`,
+            `books.insert({ uploadType: "media", media: { body: "%PDF" } });`,
+            `books.insert({ uploadType: "media", media: { mimeType: "image/png", body: "%PDF" } });`,
+            `books.insert({}, { name: "Book" });`,
+        ].join("\n"));
+
+        const diagnostics = verifyTypings(typingsDirectory);
+        assert.deepEqual(diagnostics.map(diagnostic => diagnostic.split(":")[0]), ["usage.ts(5,16)", "usage.ts(6,37)", "usage.ts(7,46)"], diagnostics.join("\n"));
+    });
+
+    it("should document upload paths instead of upload overload in namespace typings", async () => {
+        const result = await generate(fixture, { media: true, verify: "fail" });
+        assert.deepEqual(result.diagnostics, []);
+
+        const typings = fs.readFileSync(path.join(fixture.out, "gapi.client.books", "index.d.ts"), "utf-8");
+        assert.ok(!typings.includes("MediaContent"));
+        assert.ok(!typings.includes(`uploadType: "media"`));
+        assert.ok(typings.includes("Simple upload path (uploadType media or multipart): /upload/v1/books"));
+        assert.ok(typings.includes("Accepted media types: application/pdf"));
+    });
+});
+
+describe("local discovery directory", () => {
+    it("should rewrite remote urls to local files", () => {
+        const location = resolveDiscoveryLocation("snapshot", { name: "drive", version: "v3", discoveryRestUrl: "https://www.googleapis.com/discovery/v1/apis/drive/v3/rest" });
+        assert.equal(location, path.join("snapshot", "drive.v3.json"));
+    });
+
+    it("should resolve relative paths against directory", () => {
+        const location = resolveDiscoveryLocation("snapshot", { name: "drive", version: "v3", discoveryRestUrl: "apis/drive-v3.json" });
+        assert.equal(location, path.resolve("snapshot", "apis/drive-v3.json"));
+    });
+
+    describe("snapshot", () => {
+        const fixture = useFixture();
+
+        // serves directory list and books API, other documents fail to download
+        class FakeCache extends DiscoveryCache {
+            public async request<T>(url: string): Promise<T> {
+                if (url.endsWith("/apis")) {
+                    return {
+                        items: [
+                            { id: "books:v1", name: "books", version: "v1", discoveryRestUrl: "https://example.com/books/v1/rest" },
+                            { id: "drive:v3", name: "drive", version: "v3", discoveryRestUrl: "https://example.com/drive/v3/rest" },
+                        ],
+                    } as unknown as T;
+                }
+
+                if (url.includes("/books/")) {
+                    return booksApi as unknown as T;
+                }
+
+                throw new Error(`Got an error: 500 Internal Server Error`);
+            }
+        }
+
+        it("should return urls of documents which could not be downloaded", async () => {
+            const failed = await new FakeCache(fixture.out, { log: () => {}, warn: () => {}, error: () => {} }).snapshot();
+            assert.deepEqual(failed, ["https://example.com/drive/v3/rest"]);
+        });
+    });
+});
+
+describe("downloads", () => {
+    it("should retry network errors which may not repeat, rate limiting and server errors only", () => {
+        assert.equal(isTransientError({ code: "ECONNRESET" }), true);
+        assert.equal(isTransientError({ code: "EAI_AGAIN" }), true);
+        assert.equal(isTransientError({ code: "ENOTFOUND" }), false);
+        assert.equal(isTransientError({ code: "CERT_HAS_EXPIRED" }), false);
+        assert.equal(isTransientError({}), false);
+        assert.equal(isTransientError(null, 503), true);
+        assert.equal(isTransientError(null, 429), true);
+        assert.equal(isTransientError(null, 404), false);
+    });
+});
+
+describe("configuration", () => {
+    it("should match globs", () => {
+        assert.ok(matchesGlob("cloudresourcemanager", "cloud*"));
+        assert.ok(matchesGlob("drive:v3", "drive:v?"));
+        assert.ok(!matchesGlob("drive", "drive:*"));
+        assert.ok(!matchesGlob("driveactivity", "drive"));
+    });
+
+    it("should select APIs by include and exclude patterns", () => {
+        const list: gapi.client.discovery.DirectoryList = {
+            items: ["drive:v2", "drive:v3", "driveactivity:v2", "gmail:v1", "replicapool:v1"]
+                .map(id => ({ id, name: id.split(":")[0], version: id.split(":")[1] })),
+        };
+
+        assert.deepEqual(selectApis(list).map(api => api.id), ["drive:v2", "drive:v3", "driveactivity:v2", "gmail:v1"]);
+        assert.deepEqual(selectApis(list, undefined, { include: ["drive*"], exclude: ["drive:v2"] }).map(api => api.id), ["drive:v3", "driveactivity:v2"]);
+        assert.deepEqual(selectApis(list, undefined, { exclude: ["gmail"] }).map(api => api.id), ["drive:v2", "drive:v3", "driveactivity:v2"]);
+    });
+
+    it("should report all configuration errors", () => {
+        assert.throws(() => validateConfig({ include: "drive", output: { layot: "flat" }, versions: { drive: 3 } }, "config.json"), (e: Error) =>
+            e.message === [
+                "Invalid configuration config.json:",
+                "  include must be an array, got string",
+                "  output.layot is not a known option, expected one of directory, target, layout",
+                "  versions.drive must be a string, got number",
+            ].join("\n"));
+    });
+
+    it("should accept valid configuration", () => {
+        const config = { include: ["drive"], versions: { drive: ["v2", "v3"] }, types: { object: "unknown" }, output: { layout: "flat" } };
+        assert.deepEqual(validateConfig(config, "config.json"), config);
+    });
+});
+
+describe("api diff", () => {
+    const oldApi: gapi.client.discovery.RestDescription = {
+        id: "books:v1",
+        revision: "1",
+        schemas: {
+            Book: { id: "Book", type: "object", properties: { id: { type: "string" }, pages: { type: "integer" }, title: { type: "string" } } },
+        },
+        resources: {
+            books: { methods: { get: { id: "books.books.get", parameters: { id: { type: "string", location: "path" } }, response: { $ref: "Book" } } } },
+        },
+    };
+
+    const newApi: gapi.client.discovery.RestDescription = {
+        id: "books:v1",
+        revision: "2",
+        schemas: {
+            Book: { id: "Book", type: "object", properties: { id: { type: "string", required: true }, pages: { type: "string" }, author: { type: "string" } } },
+        },
+        resources: {
+            books: { methods: { get: { id: "books.books.get", parameters: { id: { type: "string", location: "path" }, view: { type: "string" } } } } },
+        },
+    };
+
+    const diff = diffApis(oldApi, newApi);
+    const summary = diff.changes.map(change => `${change.breaking ? "!" : ""}${change.kind} ${change.path}`);
+
+    it("should report changes", () => {
+        assert.deepEqual(summary, [
+            "added Book.author",
+            "!changed Book.id",
+            "!changed Book.pages",
+            "!removed Book.title",
+            "!changed books.books.get",
+            "added books.books.get.view",
+        ]);
+    });
+
+    it("should report type changes", () => {
+        const pages = diff.changes.find(change => change.path === "Book.pages");
+        assert.equal(pages && pages.description, "type changed from number to string");
+    });
+
+    it("should report format changes", () => {
+        const withFormats = (pages: string | undefined, ids: string | undefined) => ({
+            schemas: { Book: { id: "Book", type: "object", properties: { pages: { type: "integer", format: pages }, ids: { type: "array", items: { type: "string", format: ids } } } } },
+        });
+
+        assert.deepEqual(diffApis(withFormats("int32", undefined), withFormats("uint32", "int64")).changes.map(change => `${change.breaking ? "!" : ""}${change.path}: ${change.description}`), [
+            "!Book.ids: format changed from none to int64",
+            "!Book.pages: format changed from int32 to uint32",
+        ]);
+        assert.equal(diffApis(withFormats("int32", undefined), withFormats(undefined, undefined)).breaking, false);
+    });
+
+    it("should classify diff as breaking", () => {
+        assert.equal(diff.breaking, true);
+        assert.equal(diffApis(oldApi, oldApi).changes.length, 0);
+    });
+});
+
+describe("json schema", () => {
+    const api: gapi.client.discovery.RestDescription = {
+        schemas: {
+            Node: {
+                id: "Node",
+                type: "object",
+                properties: {
+                    id: { type: "string", format: "int64", required: true },
+                    children: { type: "array", items: { $ref: "Node" } },
+                    labels: { type: "object", additionalProperties: { type: "string" } },
+                },
+            },
+        },
+    };
+
+    it("should convert discovery schema", () => {
+        assert.deepEqual(convertSchemas(api, "draft-07").Node, {
+            $schema: "http://json-schema.org/draft-07/schema#",
+            title: "Node",
+            type: "object",
+            properties: {
+                id: { type: "string", pattern: "^-?[0-9]+$" },
+                children: { type: "array", items: { $ref: "#/definitions/Node" } },
+                labels: { type: "object", additionalProperties: { type: "string" } },
+            },
+            required: ["id"],
+            definitions: {
+                Node: convertSchema(api.schemas!.Node, "#/definitions/"),
+            },
+        });
+    });
+
+    it("should use $defs for 2020-12", () => {
+        assert.deepEqual(Object.keys(convertSchemas(api).Node.$defs || {}), ["Node"]);
+    });
+
+    describeCompiling("command line", () => {
+        const fixture = useFixture();
+
+        it("should emit 2020-12 schemas for option without value", () => {
+            fs.mkdirSync(fixture.out);
+            childProcess.execFileSync(process.execPath, [
+                require.resolve("ts-node/dist/bin"), "--transpile-only", path.join(__dirname, "..", "google-api-typings-generator.ts"),
+                "--out", fixture.out, "--discovery-file", fixture.discoveryFile, "--json-schema",
+            ], { stdio: "ignore" });
+
+            const schema = JSON.parse(fs.readFileSync(path.join(fixture.out, "gapi.client.books", "v1", "json-schema", "Book.json"), "utf-8"));
+            assert.equal(schema.$schema, "https://json-schema.org/draft/2020-12/schema");
+        });
+    });
+});
+
+describe("openapi", () => {
+    const document = convertToOpenApi({
+        title: "Books API",
+        version: "v1",
+        rootUrl: "https://books.googleapis.com/",
+        servicePath: "",
+        parameters: { "$.xgafv": { type: "string", location: "query" } },
+        auth: { oauth2: { scopes: { "https://www.googleapis.com/auth/books": { description: "Manage books" } } } },
+        schemas: { Book: { id: "Book", type: "object", properties: { name: { type: "string" } } } },
+        resources: {
+            books: {
+                methods: {
+                    get: {
+                        id: "books.books.get",
+                        path: "v1/{+name}",
+                        httpMethod: "GET",
+                        parameters: { name: { type: "string", location: "path", required: true } },
+                        response: { $ref: "Book" },
+                        scopes: ["https://www.googleapis.com/auth/books"],
+                    },
+                },
+            },
+        },
+    });
+
+    it("should convert methods to paths", () => {
+        const operation = document.paths["/v1/{name}"].get;
+        assert.equal(operation.operationId, "books.books.get");
+        assert.deepEqual(operation.parameters, [
+            { name: "name", in: "path", required: true, schema: { type: "string" } },
+            { $ref: "#/components/parameters/_.xgafv" },
+        ]);
+        assert.deepEqual(operation.responses["200"].content, { "application/json": { schema: { $ref: "#/components/schemas/Book" } } });
+        assert.deepEqual(operation.security, [{ oauth2: ["https://www.googleapis.com/auth/books"] }]);
+    });
+
+    it("should convert schemas", () => {
+        assert.deepEqual(document.components.schemas.Book, { type: "object", properties: { name: { type: "string" } } });
+    });
+
+    it("should use flat paths of methods sharing the same path", () => {
+        const name = { type: "string", location: "path", required: true };
+        const { paths } = convertToOpenApi({
+            resources: {
+                shelves: {
+                    methods: { get: { id: "books.shelves.get", path: "v1/{+name}", flatPath: "v1/shelves/{shelvesId}", httpMethod: "GET", parameters: { name } } },
+                    resources: {
+                        books: {
+                            methods: {
+                                get: {
+                                    id: "books.shelves.books.get",
+                                    path: "v1/{+name}",
+                                    flatPath: "v1/shelves/{shelvesId}/books/{booksId}",
+                                    httpMethod: "GET",
+                                    parameters: { name, view: { type: "string", location: "query" } },
+                                },
+                            },
+                        },
+                    },
+                },
+            },
+        });
+
+        assert.deepEqual(_.keys(paths), ["/v1/shelves/{shelvesId}", "/v1/shelves/{shelvesId}/books/{booksId}"]);
+        assert.deepEqual(paths["/v1/shelves/{shelvesId}/books/{booksId}"].get.parameters, [
+            { name: "shelvesId", in: "path", required: true, description: "Segment of name parameter", schema: { type: "string" } },
+            { name: "booksId", in: "path", required: true, description: "Segment of name parameter", schema: { type: "string" } },
+            { name: "view", in: "query", schema: { type: "string" } },
+        ]);
+    });
+
+    it("should report methods which share path and HTTP method with another one", () => {
+        const warnings: string[] = [];
+        const { paths } = convertToOpenApi({
+            resources: {
+                books: {
+                    methods: {
+                        get: { id: "books.books.get", path: "v1/books/{bookId}", httpMethod: "GET" },
+                        getBook: { id: "books.books.getBook", path: "v1/books/{bookId}", httpMethod: "GET" },
+                    },
+                },
+            },
+        }, message => warnings.push(message));
+
+        assert.equal(paths["/v1/books/{bookId}"].get.operationId, "books.books.get");
+        assert.deepEqual(warnings, ["Skipping books.books.getBook, GET /v1/books/{bookId} is already defined by books.books.get"]);
+    });
+});
+
+// discovery document generated by suites below
+describe("plugins", () => {
+    const fixture = useFixture();
+
+    it("should call hooks and emitters of plugins", async () => {
+        const events: string[] = [];
+
+        const plugin: GeneratorPlugin = {
+            name: "test",
+            onSchema: ({ name }) => events.push(`schema ${name}`),
+            onMethod: ({ resourceName, method }) => events.push(`method ${resourceName} ${method.id}`),
+            emit: ({ api, destinationDirectory }) => {
+                events.push(`emit ${api.id} ${path.relative(fixture.directory, destinationDirectory)}`);
+            },
+        };
+
+        await generate(fixture, { target: "module", plugins: [plugin] });
+
+        assert.deepEqual(events, ["schema Book", "method books books.books.get", `emit books:v1 ${path.join("out", "books")}`]);
+    });
+});
+
+describe("concurrent generation", () => {
+    const fixture = useFixture();
+
+    it("should limit number of running tasks and keep order of results", async () => {
+        let running = 0;
+        let maxRunning = 0;
+
+        const results = await mapConcurrently([30, 10, 20, 0, 5], 2, async delay => {
+            maxRunning = Math.max(maxRunning, ++running);
+            await new Promise(resolve => setTimeout(resolve, delay));
+            running--;
+            return delay * 2;
+        });
+
+        assert.deepEqual(results, [60, 20, 40, 0, 10]);
+        assert.equal(maxRunning, 2);
+    });
+
+    it("should report failed services", async () => {
+        const discoveryFile = path.join(fixture.directory, "missing.v1.json");
+
+        const result = await new App(fixture.out, { quiet: true }).processService(discoveryFile, true);
+
+        assert.equal(result.status, "failed");
+        assert.equal(result.url, discoveryFile);
+        assert.ok(result.error);
+        assert.ok(formatSummary({ results: [result], elapsed: 0 }).startsWith("Generated 0, skipped 0, failed 1 in 0.0s\n  " + discoveryFile));
+    });
+
+    it("should report invalid discovery documents", async () => {
+        const discoveryFile = path.join(fixture.directory, "invalid.v1.json");
+        fs.writeFileSync(discoveryFile, "{ invalid");
+
+        const result = await new App(fixture.out, { quiet: true }).processService(discoveryFile, true);
+
+        assert.equal(result.status, "failed");
+        assert.ok(result.error && result.error.startsWith(`Invalid JSON in ${discoveryFile}: `), result.error);
+    });
+
+    it("should report discovery documents without version", async () => {
+        const discoveryFile = path.join(fixture.directory, "unversioned.json");
+        fs.writeFileSync(discoveryFile, JSON.stringify({ ...booksApi, version: undefined }));
+
+        const result = await new App(fixture.out, { quiet: true }).processService(discoveryFile, true);
+
+        assert.equal(result.status, "failed");
+        assert.equal(result.error, "Expected property 'version' on discovery document type but was undefined");
+    });
+});
+
+describe("deterministic output", () => {
+    const fixture = useFixture({ ...booksApi, revision: "20200101" });
+
+    it("should sort nested records of API", () => {
+        const api: gapi.client.discovery.RestDescription = {
+            schemas: { B: { type: "object", properties: { z: { type: "string" }, a: { type: "object", properties: { y: { type: "string" }, b: { type: "string" } } } } }, A: { type: "string" } },
+            resources: { shelves: { resources: { books: { methods: { list: {}, get: { parameters: { z: { type: "string" }, a: { type: "string" } } } } }, authors: {} } } },
+        };
+
+        sortApi(api);
+
+        assert.deepEqual(_.keys(api.schemas), ["A", "B"]);
+        assert.deepEqual(_.keys(api.schemas!.B.properties), ["a", "z"]);
+        assert.deepEqual(_.keys(api.schemas!.B.properties!.a.properties), ["b", "y"]);
+        assert.deepEqual(_.keys(api.resources!.shelves.resources), ["authors", "books"]);
+        assert.deepEqual(_.keys(api.resources!.shelves.resources!.books.methods), ["get", "list"]);
+        assert.deepEqual(_.keys(api.resources!.shelves.resources!.books.methods!.get.parameters), ["a", "z"]);
+    });
+
+    it("should write manifest and report outdated files in check mode", async () => {
+        assert.equal((await generate(fixture, { target: "module" })).status, "generated");
+
+        const typingsFile = path.join(fixture.out, "books", "index.d.ts");
+        const manifest = JSON.parse(fs.readFileSync(path.join(fixture.out, "books", manifestFileName), "utf-8"));
+        assert.deepEqual(_.keys(manifest.files), ["index.d.ts"]);
+        assert.equal(manifest.revision, "20200101");
+
+        assert.equal((await generate(fixture, { target: "module", check: true })).status, "generated");
+
+        fs.appendFileSync(typingsFile, "// modified");
+
+        const result = await generate(fixture, { target: "module", check: true });
+        assert.equal(result.status, "outdated");
+        assert.equal(result.error, "out of date: index.d.ts");
+        assert.ok(fs.readFileSync(typingsFile, "utf-8").endsWith("// modified"));
+    });
+
+    it("should report files which are not generated anymore in check mode and remove them otherwise", async () => {
+        const directory = path.join(fixture.out, "books");
+        assert.equal((await generate(fixture, { target: "module", validators: true, jsonSchema: "draft-07" })).status, "generated");
+        assert.ok(fs.existsSync(path.join(directory, "validators.ts")));
+        assert.ok(fs.existsSync(path.join(directory, "json-schema", "Book.json")));
+
+        const result = await generate(fixture, { target: "module", check: true });
+        assert.equal(result.status, "outdated");
+        assert.equal(result.error, "out of date: json-schema/Book.json, validators.ts, manifest.json");
+
+        assert.equal((await generate(fixture, { target: "module" })).status, "generated");
+        assert.deepEqual(fs.readdirSync(directory).sort(), ["index.d.ts", manifestFileName]);
+        assert.equal((await generate(fixture, { target: "module", check: true })).status, "generated");
+    });
+});
+
+describe("pruning", () => {
+    const fixture = useFixture();
+
+    before(() => {
+        fs.writeFileSync(path.join(fixture.directory, "directory.json"), JSON.stringify({
+            items: [{ name: "books", version: "v1", id: "books:v1", preferred: true, discoveryRestUrl: "books.v1.json" }],
+        }));
+
+        for (const typings of ["gapi.client.removed", path.join("gapi.client.books", "v0"), "gapi.client"]) {
+            fs.mkdirSync(path.join(fixture.out, typings), { recursive: true });
+            fs.writeFileSync(path.join(fixture.out, typings, "index.d.ts"), "");
+        }
+    });
+
+    it("should report orphaned directories in check mode", async () => {
+        const summary = await new App(fixture.out, { discoveryDirectory: fixture.directory, prune: true, check: true, quiet: true }).discover();
+
+        assert.deepEqual(summary.orphaned, [path.join("gapi.client.books", "v0"), "gapi.client.removed"]);
+        assert.ok(fs.existsSync(path.join(fixture.out, "gapi.client.removed")));
+    });
+
+    it("should remove orphaned directories and keep other typings", async () => {
+        await new App(fixture.out, { discoveryDirectory: fixture.directory, prune: true, quiet: true }).discover();
+
+        assert.deepEqual(fs.readdirSync(fixture.out).sort(), ["gapi.client", "gapi.client.books"]);
+        assert.ok(!fs.existsSync(path.join(fixture.out, "gapi.client.books", "v0")));
+    });
+});
+
+describeCompiling("client", () => {
+    const fixture = useFixture({
+        ...booksApi,
+        rootUrl: "https://books.googleapis.com/",
+        servicePath: "",
+        parameters: { fields: { type: "string", location: "query" }, uploadType: { type: "string", location: "query" } },
+        resources: {
+            books: {
+                methods: {
+                    get: {
+                        id: "books.books.get",
+                        path: "v1/{+name}",
+                        httpMethod: "GET",
+                        parameters: { name: { type: "string", location: "path", required: true } },
+                        response: { $ref: "Book" },
+                    },
+                    insert: {
+                        id: "books.books.insert",
+                        path: "v1/books",
+                        httpMethod: "POST",
+                        request: { $ref: "Book" },
+                        response: { $ref: "Book" },
+                        supportsMediaUpload: true,
+                        mediaUpload: { accept: ["application/pdf"], protocols: { simple: { multipart: true, path: "/upload/v1/books" } } },
+                    },
+                },
+            },
+        },
+    });
+
+    it("should send requests of overloaded methods", async () => {
+        const result = await generate(fixture, { target: "module", client: true, media: true, partialResponses: true, verify: "fail" });
+        assert.deepEqual(result.diagnostics, []);
+
+        const requests: object[] = [];
+        const { createClient } = loadModule(path.join(fixture.out, "books", "client.ts"));
+        const client = createClient({ request: (request: object) => Promise.resolve(requests.push(request)) });
+
+        await client.books.get({ name: "books/1", fields: "name" });
+        await client.books.insert({ uploadType: "media", media: { mimeType: "application/pdf", body: "%PDF" } });
+        await client.books.insert({}, { name: "Book" });
+
+        assert.deepEqual(requests, [
+            { method: "GET", url: "https://books.googleapis.com/v1/books/1?fields=name", headers: {}, body: undefined, media: undefined },
+            { method: "POST", url: "https://books.googleapis.com/upload/v1/books?uploadType=media", headers: {}, body: undefined, media: { mimeType: "application/pdf", body: "%PDF" } },
+            { method: "POST", url: "https://books.googleapis.com/v1/books", headers: { "Content-Type": "application/json" }, body: `{"name":"Book"}`, media: undefined },
+        ]);
+    });
+});
+
+describeCompiling("generated packages", () => {
+    const manageScope = "https://www.googleapis.com/auth/books";
+    const readonlyScope = "https://www.googleapis.com/auth/books.readonly";
+    const fixture = useFixture({
+        ...booksApi,
+        auth: { oauth2: { scopes: { [manageScope]: { description: "Manage books" }, [readonlyScope]: { description: "View books" } } } },
+        schemas: {
+            Book: {
+                id: "Book",
+                type: "object",
+                properties: {
+                    labels: { type: "object", additionalProperties: { type: "string" } },
+                    name: { type: "string" },
+                    related: { type: "array", items: { $ref: "Book" } },
+                    state: { type: "string", enum: ["DRAFT", "PUBLISHED"] },
+                },
+            },
+        },
+        resources: {
+            books: {
+                methods: {
+                    delete: {
+                        id: "books.books.delete",
+                        path: "v1/{+name}",
+                        flatPath: "v1/books/{booksId}",
+                        httpMethod: "DELETE",
+                        parameters: { name: { type: "string", location: "path", required: true } },
+                        scopes: [manageScope],
+                    },
+                    get: {
+                        id: "books.books.get",
+                        path: "v1/{+name}",
+                        flatPath: "v1/books/{booksId}",
+                        httpMethod: "GET",
+                        parameters: { name: { type: "string", location: "path", required: true } },
+                        response: { $ref: "Book" },
+                        scopes: [manageScope, readonlyScope],
+                    },
+                },
+            },
+        },
+    });
+
+    describe("namespace target", () => {
+        const typingsDirectory = () => path.join(fixture.out, "gapi.client.books");
+
+        before(async () => {
+            const result = await generate(fixture, { validators: true, scopes: true, routes: true, verify: "fail" });
+            assert.deepEqual(result.diagnostics, []);
+        });
+
+        afterEach(() => {
+            const usageFile = path.join(typingsDirectory(), "usage.ts");
+
+            if (fs.existsSync(usageFile)) {
+                fs.unlinkSync(usageFile);
+            }
+        });
+
+        it("should validate values of schemas at runtime", () => {
+            const validators = loadModule(path.join(typingsDirectory(), "validators.ts"));
+            const book = { name: "books/1", labels: { genre: "novel" }, related: [{ state: "DRAFT" }] };
+
+            assert.equal(validators.validateBook(book), undefined);
+            assert.ok(validators.isBook(book));
+            assert.equal(validators.validateBook({ related: [{ state: "LOST" }] }), `Book.related[0].state: expected one of DRAFT, PUBLISHED, got "LOST"`);
+            assert.equal(validators.validateBook({ labels: { genre: 1 } }), `Book.labels["genre"]: expected string, got number`);
+            assert.throws(() => validators.assertBook([]), TypeError);
+        });
+
+        it("should select required scopes of methods", () => {
+            const scopes = loadModule(path.join(typingsDirectory(), "scopes.ts"));
+
+            assert.deepEqual(scopes.getRequiredScopes(["books.books.get"]), [manageScope]);
+            assert.deepEqual(scopes.getRequiredScopes(["books.books.delete", "books.books.get"]), [manageScope]);
+            assert.equal(scopes.scopes[readonlyScope], "View books");
+        });
+
+        it("should type scopes and raw requests", () => {
+            fs.writeFileSync(path.join(typingsDirectory(), "usage.ts"), [
+                `import { getRequiredScopes, methodScopes } from "./scopes";`,
+                `const scope: gapi.client.books.BooksScope = methodScopes["books.books.delete"][0];`,
+                `getRequiredScopes(["books.books.list"]);`,
+                `gapi.client.request<gapi.client.books.BooksRoutes, "GET v1/books/{booksId}">({ path: "v1/books/1", method: "GET", params: { fields: "name" } })`,
+                `    .then(response => response.result.name);`,
+                `gapi.client.request<gapi.client.books.BooksRoutes, "DELETE v1/books/{booksId}">({ path: "v1/books/1", method: "GET" });`,
+            ].join("\n"));
+
+            const diagnostics = verifyTypings(typingsDirectory());
+            assert.deepEqual(diagnostics.map(diagnostic => diagnostic.split(":")[0]), ["usage.ts(3,20)", "usage.ts(6,103)"], diagnostics.join("\n"));
+        });
+    });
+
+    it("should use module typings with runtime client", async () => {
+        const result = await generate(fixture, { target: "module", client: true, verify: "fail" });
+        assert.deepEqual(result.diagnostics, []);
+
+        const typingsDirectory = path.join(fixture.out, "books");
+        fs.writeFileSync(path.join(typingsDirectory, "usage.ts"), [
+            `import { createClient } from "./client";`,
+            `import { Book, BooksApi, BooksGetRequest } from "./index";`,
+            `const api: BooksApi = createClient({ request: () => Promise.resolve({} as any) });`,
+            `const request: BooksGetRequest = { name: "books/1" };`,
+            `api.books.get(request).then((book: Book) => book.state === "DRAFT");`,
+            `api.books.get({});`,
+        ].join("\n"));
+
+        const diagnostics = verifyTypings(typingsDirectory);
+        assert.deepEqual(diagnostics.map(diagnostic => diagnostic.split(":")[0]), ["usage.ts(6,15)"], diagnostics.join("\n"));
+    });
+});
+
+describeCompiling("verification", () => {
+    const fixture = useFixture();
+
+    it("should compile generated typings and report diagnostics", async () => {
+        const result = await generate(fixture, { target: "module", client: true, verify: "fail" });
+        assert.deepEqual(result.diagnostics, []);
+        assert.equal(result.status, "generated");
+
+        const typingsDirectory = path.join(fixture.out, "books");
+        fs.writeFileSync(path.join(typingsDirectory, "usage.ts"), `import { Book } from "./index";\nconst book: Book = { title: "" };\n`);
+
+        const diagnostics = verifyTypings(typingsDirectory);
+        assert.equal(diagnostics.length, 1);
+        assert.ok(diagnostics[0].startsWith("usage.ts(2,22): error TS2322"), diagnostics[0]);
+    });
+
+    describe("check mode", () => {
+        const checkFixture = useFixture({
+            ...booksApi,
+            schemas: {
+                Book: {
+                    id: "Book",
+                    type: "object",
+                    properties: {
+                        labels: { type: "object", additionalProperties: { type: "string" } },
+                        meta: { type: "object", properties: { count: { type: "integer" } }, additionalProperties: { type: "integer" } },
+                    },
+                    additionalProperties: { type: "object", additionalProperties: { type: "string" } },
+                },
+            },
+        });
+
+        it("should verify generated output instead of missing files", async () => {
+            const result = await generate(checkFixture, { target: "module", client: true, check: true, verify: "fail" });
+            assert.equal(result.status, "outdated");
+            assert.deepEqual(result.diagnostics, []);
+        });
+
+        it("should verify generated output instead of stale files", async () => {
+            assert.equal((await generate(checkFixture, { verify: "fail" })).status, "generated");
+
+            const typingsDirectory = path.join(checkFixture.out, "gapi.client.books");
+            fs.writeFileSync(path.join(typingsDirectory, "index.d.ts"), "declare const book: Book;");
+            fs.writeFileSync(path.join(typingsDirectory, "stale.ts"), "const count: number = \"\";");
+
+            const result = await generate(checkFixture, { check: true, verify: "fail" });
+            assert.equal(result.status, "outdated");
+            assert.deepEqual(result.diagnostics, []);
+        });
+    });
+
+    it("should type responses of batched requests by id", async () => {
+        const result = await generate(fixture, { verify: "fail" });
+        assert.deepEqual(result.diagnostics, []);
+
+        const typingsDirectory = path.join(fixture.out, "gapi.client.books");
+        fs.writeFileSync(path.join(typingsDirectory, "usage.ts"), [
+            `async function run() {`,
+            `    const batch: gapi.client.TypedBatch = gapi.client.newBatch();`,
+            `    batch.add(gapi.client.books.books.get({ name: "books/1" }), { id: "book" });`,
+            `    const { result } = await batch;`,
+            `    const name: string | undefined = result.book.result.name;`,
+            `    result.other;`,
+            `    const untyped = gapi.client.newBatch<gapi.client.books.Book>();`,
+            `    untyped.add(gapi.client.books.books.get({ name: "books/1" }));`,
+            `    untyped.add(gapi.client.books.books.get({ name: "books/2" }), { id: "second" });`,
+            `}`,
+        ].join("\n"));
+
+        const diagnostics = verifyTypings(typingsDirectory);
+        assert.equal(diagnostics.length, 1);
+        assert.ok(diagnostics[0].startsWith("usage.ts(6,12): error TS2339"), diagnostics[0]);
+    });
+
+    describe("reserved root resources", () => {
+        const reservedFixture = useFixture({
+            ...booksApi,
+            resources: {
+                ...booksApi.resources,
+                debugger: { methods: { ping: { id: "books.debugger.ping", path: "v1/debugger:ping", httpMethod: "POST", response: { $ref: "Book" } } } },
+            },
+        });
+
+        it("should declare root resources as properties of API object", async () => {
+            const result = await generate(reservedFixture, { verify: "fail" });
+            assert.deepEqual(result.diagnostics, []);
+
+            const typingsDirectory = path.join(reservedFixture.out, "gapi.client.books");
+            assert.ok(fs.readFileSync(path.join(typingsDirectory, "index.d.ts"), "utf-8").includes("const books: books.BooksApi;"));
+
+            fs.writeFileSync(path.join(typingsDirectory, "usage.ts"), [
+                `async function run() {`,
+                `    const book: gapi.client.books.Book = (await gapi.client.books.debugger.ping({})).result;`,
+                `    const resource: gapi.client.books.DebuggerResource = gapi.client.books.debugger;`,
+                `    await gapi.client.books.books.get({});`,
+                `    gapi.client.books.other;`,
+                `}`,
+            ].join("\n"));
+
+            const diagnostics = verifyTypings(typingsDirectory);
+            assert.equal(diagnostics.length, 1, diagnostics.join("\n"));
+            assert.ok(diagnostics[0].startsWith("usage.ts(5,23): error TS2339"), diagnostics[0]);
+        });
+    });
+
+    describe("helper types", () => {
+        const helpersFixture = useFixture({
+            ...booksApi,
+            parameters: { fields: { type: "string", location: "query" } },
+            schemas: {
+                Book: { id: "Book", type: "object", properties: { id: { type: "string", format: "int64" }, pages: { type: "integer", format: "int32" }, etag: { type: "string", readOnly: true } } },
+                ListBooksResponse: { id: "ListBooksResponse", type: "object", properties: { books: { type: "array", items: { $ref: "Book" } }, nextPageToken: { type: "string" } } },
+                Paginated: { id: "Paginated", type: "object", properties: { name: { type: "string" } } },
+                BooksListPagination: { id: "BooksListPagination", type: "object", properties: { name: { type: "string" } } },
+                BooksInsertRequestBody: { id: "BooksInsertRequestBody", type: "object", properties: { name: { type: "string" } } },
+            },
+            resources: {
+                books: {
+                    methods: {
+                        list: { id: "books.books.list", path: "v1/books", httpMethod: "GET", parameters: { pageToken: { type: "string", location: "query" } }, response: { $ref: "ListBooksResponse" } },
+                        insert: { id: "books.books.insert", path: "v1/books", httpMethod: "POST", request: { $ref: "Book" }, response: { $ref: "Book" } },
+                    },
+                },
+            },
+        });
+
+        const options: AppOptions = { formatTypes: defaultFormatTypes, pagination: true, partialResponses: true, verify: "fail" };
+
+        it("should declare helper types in namespace typings", async () => {
+            const result = await generate(helpersFixture, options);
+            assert.deepEqual(result.diagnostics, []);
+
+            const typings = fs.readFileSync(path.join(helpersFixture.out, "gapi.client.books", "index.d.ts"), "utf-8");
+            assert.ok(typings.includes(`type Int64String = string & { __format?: "int64" };`));
+            assert.ok(typings.includes(`interface Paginated_ {`));
+        });
+
+        it("should rename schemas named as request bodies and paginations of methods", async () => {
+            const result = await generate(helpersFixture, { ...options, requestBodyTypes: true });
+            assert.deepEqual(result.diagnostics, []);
+
+            const typings = fs.readFileSync(path.join(helpersFixture.out, "gapi.client.books", "index.d.ts"), "utf-8");
+            assert.ok(typings.includes(`interface BooksListPagination_ {`));
+            assert.ok(typings.includes(`interface BooksInsertRequestBody_ {`));
+            assert.ok(typings.includes(`type BooksInsertRequestBody = `));
+        });
+
+        it("should declare request of pagination in namespace typings", async () => {
+            const result = await generate(helpersFixture, { ...options, media: true });
+            assert.deepEqual(result.diagnostics, []);
+
+            const typingsDirectory = path.join(helpersFixture.out, "gapi.client.books");
+            assert.ok(!fs.readFileSync(path.join(typingsDirectory, "index.d.ts"), "utf-8").includes("Parameters<"));
+
+            fs.writeFileSync(path.join(typingsDirectory, "usage.ts"), [
+                `const request: gapi.client.books.BooksListPagination["request"] = { pageToken: "token", fields: "books" };`,
+                `const item: gapi.client.books.BooksListPagination["item"] = { id: "1" };`,
+            ].join("\n"));
+
+            assert.deepEqual(verifyTypings(typingsDirectory), []);
+        });
+
+        it("should export helper types from module", async () => {
+            const result = await generate(helpersFixture, { ...options, target: "module" });
+            assert.deepEqual(result.diagnostics, []);
+        });
+    });
+});
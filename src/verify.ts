@@ -0,0 +1,94 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+
+// directory containing gapi.client typings which are referenced by generated namespace typings
+const defaultTypeRoot = __dirname;
+
+// same options as generated tsconfig.json
+const compilerOptions: ts.CompilerOptions = {
+    module: ts.ModuleKind.CommonJS,
+    lib: ["lib.es2015.d.ts", "lib.dom.d.ts"],
+    noImplicitAny: true,
+    noImplicitThis: true,
+    strictNullChecks: true,
+    strictFunctionTypes: true,
+    forceConsistentCasingInFileNames: true,
+    types: [],
+    noEmit: true,
+};
+
+// default libraries and gapi.client typings are parsed once and shared by all compilations
+const sharedSourceFiles = new Map<string, ts.SourceFile>();
+
+// returns TypeScript files of the directory, directories of other versions (with their own manifest) are excluded
+function getSourceFiles(directory: string, root = true): string[] {
+    if (!root && fs.existsSync(path.join(directory, "manifest.json"))) {
+        return [];
+    }
+
+    return fs.readdirSync(directory).sort().reduce<string[]>((files, name) => {
+        const filename = path.join(directory, name);
+
+        if (fs.statSync(filename).isDirectory()) {
+            return [...files, ...getSourceFiles(filename, false)];
+        }
+
+        return name.endsWith(".ts") ? [...files, filename] : files;
+    }, []);
+}
+
+// compiles generated typings of API, returns diagnostics formatted relative to the directory,
+// files of the directory are read from disk unless generated contents are given by path relative to the directory
+export function verifyTypings(directory: string, files?: Record<string, string>, typeRoots: string[] = [defaultTypeRoot]): string[] {
+    const options = { ...compilerOptions, typeRoots };
+    const host = ts.createCompilerHost(options);
+    const { getSourceFile, fileExists, readFile, directoryExists = ts.sys.directoryExists } = host;
+    const outputDirectory = path.resolve(directory);
+    const isOutputFile = (fileName: string) => path.resolve(fileName).startsWith(outputDirectory + path.sep);
+    const getContent = (fileName: string) => files && files[path.relative(outputDirectory, path.resolve(fileName)).split(path.sep).join("/")];
+
+    if (files) {
+        // files on disk (e.g. stale ones in check mode) are not visible to the compilation
+        host.fileExists = fileName => isOutputFile(fileName) ? getContent(fileName) !== undefined : fileExists(fileName);
+        host.readFile = fileName => isOutputFile(fileName) ? getContent(fileName) : readFile(fileName);
+        host.directoryExists = directoryName => path.resolve(directoryName) === outputDirectory || isOutputFile(directoryName)
+            ? Object.keys(files).some(name => path.join(outputDirectory, name).startsWith(path.resolve(directoryName) + path.sep))
+            : directoryExists(directoryName);
+    }
+
+    host.getSourceFile = (fileName, languageVersion, onError, shouldCreateNewSourceFile) => {
+        if (isOutputFile(fileName)) {
+            if (files) {
+                const content = getContent(fileName);
+                return content === undefined ? undefined : ts.createSourceFile(fileName, content, languageVersion);
+            }
+
+            return getSourceFile(fileName, languageVersion, onError, shouldCreateNewSourceFile);
+        }
+
+        let sourceFile = sharedSourceFiles.get(fileName);
+
+        if (!sourceFile) {
+            sourceFile = getSourceFile(fileName, languageVersion, onError, shouldCreateNewSourceFile);
+
+            if (sourceFile) {
+                sharedSourceFiles.set(fileName, sourceFile);
+            }
+        }
+
+        return sourceFile;
+    };
+
+    const rootNames = files
+        ? Object.keys(files).filter(name => name.endsWith(".ts")).sort().map(name => path.join(outputDirectory, name))
+        : getSourceFiles(directory);
+    const program = ts.createProgram(rootNames, options, host);
+    const diagnostics = ts.getPreEmitDiagnostics(program);
+
+    return diagnostics.map(diagnostic => ts.formatDiagnostic(diagnostic, {
+        getCanonicalFileName: fileName => fileName,
+        getCurrentDirectory: () => outputDirectory,
+        getNewLine: () => "\n",
+    }).trim());
+}